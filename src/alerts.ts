@@ -0,0 +1,38 @@
+import { config } from './config.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('ALERT');
+
+// Don't let a slow webhook hold up the watchdog
+const ALERT_TIMEOUT_MS = 10_000;
+
+/**
+ * Where alerts go: the ALERT_WEBHOOK_URL webhook, or only the log when it is unset
+ * (local development - alerts show up as WARN lines).
+ */
+export function getAlertSink(): 'webhook' | 'log' {
+  return config.alertWebhookUrl ? 'webhook' : 'log';
+}
+
+/**
+ * Send an alert as Slack-compatible JSON ({ "text": ... }) to ALERT_WEBHOOK_URL.
+ * Every alert is also logged, so it is visible even when the webhook fails.
+ *
+ * @throws Error if the webhook does not return 2xx
+ */
+export async function sendAlert(text: string): Promise<void> {
+  log.warn(text, { sink: getAlertSink() });
+  if (!config.alertWebhookUrl) {
+    return;
+  }
+
+  const response = await fetch(config.alertWebhookUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ text }),
+    signal: AbortSignal.timeout(ALERT_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Alert webhook returned ${response.status}: ${(await response.text()).slice(0, 200)}`);
+  }
+}
@@ -0,0 +1,178 @@
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { config } from './config.js';
+import { pool } from './state/db.js';
+import { initDb } from './state/tracker.js';
+import { parseCodeEnforcementCasesCsv } from './parsers/code-enforcement-cases.js';
+import { loadCustomFieldDefinitions } from './sync/custom-field-definitions.js';
+import { processCasesSync, CasesSyncSummary } from './sync/cases-sync.js';
+
+const USAGE = `Usage: npm run cli -- <cases.csv> [options]
+       node dist/cli.js <cases.csv> [options]
+
+Run a local Code Enforcement Cases CSV through parse → diff → push.
+
+Options:
+  --dry-run            Only report which cases changed since the last import (no Threefold calls, nothing saved)
+  --limit <n>          Only process the first n records
+  --only <caseNos>     Only process these case numbers (comma-separated, e.g. CE22-1639,CC25-0774)
+  --format <format>    Output format: table (default) or json
+  -h, --help           Show this help
+
+Uses the same DATABASE_URL / THREEFOLD_* / CASE_* environment as the server.`;
+
+type OutputFormat = 'table' | 'json';
+
+interface CliOptions {
+  file: string;
+  dryRun: boolean;
+  limit: number | null;
+  only: string[];
+  format: OutputFormat;
+}
+
+/**
+ * Parse command-line arguments.
+ *
+ * @returns Options, or an error message to print with the usage
+ */
+function parseCliArgs(argv: string[]): CliOptions | string {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        'dry-run': { type: 'boolean', default: false },
+        limit: { type: 'string' },
+        only: { type: 'string' },
+        format: { type: 'string', default: 'table' },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) return '';
+  if (positionals.length !== 1) return 'Expected exactly one CSV path';
+
+  const limit = values.limit === undefined ? null : Number(values.limit);
+  if (limit !== null && (!Number.isInteger(limit) || limit <= 0)) {
+    return '--limit must be a positive integer';
+  }
+
+  if (values.format !== 'table' && values.format !== 'json') {
+    return '--format must be table or json';
+  }
+
+  return {
+    file: positionals[0],
+    dryRun: values['dry-run'] ?? false,
+    limit,
+    only: (values.only ?? '').split(',').map(c => c.trim().toUpperCase()).filter(Boolean),
+    format: values.format,
+  };
+}
+
+/**
+ * Render rows as a fixed-width text table.
+ */
+function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)));
+  const line = (cells: string[]) => cells.map((c, i) => c.padEnd(widths[i])).join('  ').trimEnd();
+  return [line(headers), line(widths.map(w => '-'.repeat(w))), ...rows.map(line)].join('\n');
+}
+
+/**
+ * Print the sync summary as a table of changed cases followed by totals.
+ */
+function printTable(summary: CasesSyncSummary): void {
+  const rows = summary.changes.map(c => [
+    c.caseNo,
+    c.changeType,
+    c.transition,
+    `${c.previousOpened ?? '-'} → ${c.opened ?? '-'}`,
+    `${c.previousClosed ?? '-'} → ${c.closed ?? '-'}`,
+    c.result ?? '',
+    c.ticketId ? `#${c.ticketId}` : '',
+    c.error ?? c.actions?.join('; ') ?? '',
+  ]);
+
+  console.log('');
+  console.log(rows.length > 0
+    ? formatTable(['CASE', 'CHANGE', 'TRANSITION', 'OPENED', 'CLOSED', 'RESULT', 'TICKET', 'DETAIL'], rows)
+    : 'No changes');
+  console.log('');
+  console.log(`${summary.dryRun ? 'DRY RUN - ' : ''}${summary.totalRecords} records, ${summary.newCases} new, ${summary.updatedCases} updated`);
+  if (!summary.dryRun) {
+    console.log(`Threefold: ${summary.updated} updated, ${summary.unchanged} already up to date, ${summary.created} created, ${summary.addressMatched} matched by address, ${summary.held} held, ${summary.notFound} no ticket, ${summary.queued} queued, ${summary.errors} errors`);
+  }
+}
+
+async function main(): Promise<number> {
+  const options = parseCliArgs(process.argv.slice(2));
+  if (typeof options === 'string') {
+    if (options) console.error(`Error: ${options}\n`);
+    console.error(USAGE);
+    return options ? 2 : 0;
+  }
+
+  // Keep stdout clean for the JSON document - sync progress logs go to stderr
+  if (options.format === 'json') {
+    console.log = console.error;
+  }
+
+  const csvContent = fs.readFileSync(options.file, 'utf-8');
+  let records = await parseCodeEnforcementCasesCsv(csvContent);
+  console.log(`[CLI] Parsed ${records.length} case records from ${options.file}`);
+
+  if (options.only.length > 0) {
+    const only = new Set(options.only);
+    records = records.filter(r => only.has(r.caseNo));
+    const missing = options.only.filter(c => !records.some(r => r.caseNo === c));
+    if (missing.length > 0) {
+      console.warn(`[CLI] Not in file: ${missing.join(', ')}`);
+    }
+  }
+  if (options.limit !== null) {
+    records = records.slice(0, options.limit);
+  }
+  const partial = options.only.length > 0 || options.limit !== null;
+  console.log(`[CLI] Processing ${records.length} records${options.dryRun ? ' (dry run)' : ''}`);
+
+  await initDb();
+  if (!options.dryRun) {
+    if (!config.caseUpdatesEnabled) {
+      console.warn('[CLI] CASE_UPDATES_ENABLED=false - cases will be saved but no tickets updated');
+    }
+    await loadCustomFieldDefinitions();
+  }
+
+  const summary = await processCasesSync(records, {
+    sourceFile: path.basename(options.file),
+    dryRun: options.dryRun,
+    // A filtered or truncated file would mark every other case missing
+    fullExport: !partial,
+  });
+
+  if (options.format === 'json') {
+    process.stdout.write(`${JSON.stringify(summary, null, 2)}\n`);
+  } else {
+    printTable(summary);
+  }
+
+  return summary.errors > 0 ? 1 : 0;
+}
+
+main()
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(err => {
+    console.error('[CLI] Failed:', err);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -1,66 +1,117 @@
 import express from 'express';
 import { config } from './config.js';
 import { webhookRouter } from './routes/webhook.js';
+import { adminRouter } from './routes/admin.js';
+import { healthRouter } from './routes/health.js';
+import { requireAdminAuth, isAdminAuthConfigured } from './routes/admin-auth.js';
 import { initDb } from './state/tracker.js';
+import { metricsRegistry } from './metrics.js';
+import { startJobWorker } from './sync/job-worker.js';
+import { startOutboxWorker } from './sync/outbox-worker.js';
+import { startFeedWatchdog } from './sync/feed-watchdog.js';
+import { getAlertSink } from './alerts.js';
+import { loadCustomFieldDefinitions, startCustomFieldRefresh } from './sync/custom-field-definitions.js';
+import { isWebhookAuthConfigured, isSignatureVerificationConfigured } from './routes/webhook-auth.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('SERVER');
+const requestLog = createLogger('REQUEST');
 
 const app = express();
 
 // Log all incoming requests
 app.use((req, _res, next) => {
-  console.log(`[REQUEST] ${req.method} ${req.path} from ${req.ip}`);
+  requestLog.info(`${req.method} ${req.path} from ${req.ip}`);
   next();
 });
 
-// Health check
-app.get('/health', (_req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
-});
+// Health checks (liveness, and readiness with Postgres / Threefold / last sync)
+app.use('/health', healthRouter);
 
-// Admin: Clear cache endpoint
-app.post('/admin/clear-cache', async (_req, res) => {
-  const { clearCaseCache } = await import('./state/tracker.js');
+// Prometheus metrics
+app.get('/metrics', async (_req, res) => {
   try {
-    const result = await clearCaseCache();
-    console.log('[ADMIN] Cache cleared:', result);
-    res.json({ success: true, ...result });
+    res.type(metricsRegistry.contentType).send(await metricsRegistry.metrics());
   } catch (err) {
-    console.error('[ADMIN] Failed to clear cache:', err);
-    res.status(500).json({ error: String(err) });
+    log.error('Failed to collect metrics', { err });
+    res.status(500).send(String(err));
   }
 });
 
+// Admin routes (JSON bodies, Bearer token when ADMIN_API_TOKEN is set)
+app.use('/admin', requireAdminAuth, express.json(), adminRouter);
+
 // SendGrid webhook route (uses raw body parsing via busboy)
 app.use('/webhook', webhookRouter);
 
 // Error handler
 app.use((err: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
-  console.error('Unhandled error:', err);
+  log.error('Unhandled error', { err });
   res.status(500).json({ error: 'Internal server error' });
 });
 
 async function main() {
-  console.log('='.repeat(60));
-  console.log('CORONA CODE ENFORCEMENT CASE SYNC - Starting up...');
-  console.log('='.repeat(60));
-  console.log(`Environment: ${config.nodeEnv}`);
-  console.log(`Case Updates: ${config.caseUpdatesEnabled ? 'ENABLED' : 'DISABLED (dry run mode)'}`);
-  console.log('-'.repeat(60));
+  log.info('Corona code enforcement case sync starting up', {
+    environment: config.nodeEnv,
+    caseUpdates: config.caseUpdatesEnabled ? 'enabled' : 'disabled (dry run mode)',
+    ticketCreation: config.caseTicketCreationEnabled ? `enabled (types: ${JSON.stringify(config.caseTicketTypeIds)})` : 'disabled',
+    permitUpdates: config.permitUpdatesEnabled ? 'enabled' : 'disabled (dry run mode)',
+    violationUpdates: config.violationUpdatesEnabled ? 'enabled' : 'disabled (dry run mode)',
+    inspectionUpdates: config.inspectionUpdatesEnabled ? 'enabled' : 'disabled (dry run mode)',
+    webhookAuth: isWebhookAuthConfigured() ? 'enabled' : 'disabled (anyone can POST)',
+    adminAuth: isAdminAuthConfigured() ? 'enabled' : 'not configured (admin API refused)',
+    webhookSignature: isSignatureVerificationConfigured() ? 'enabled' : 'disabled',
+    senderAllowlist: config.sendgridAllowedSenders.length > 0 ? config.sendgridAllowedSenders.join(', ') : 'disabled',
+  });
+
+  // The webhook is a write path into Threefold - never run it open in production
+  if (!isWebhookAuthConfigured() && !isSignatureVerificationConfigured()) {
+    if (config.nodeEnv === 'production') {
+      throw new Error(
+        'Webhook authentication is not configured - set SENDGRID_WEBHOOK_SECRET, ' +
+          'SENDGRID_BASIC_AUTH_USER/SENDGRID_BASIC_AUTH_PASSWORD or SENDGRID_VERIFICATION_KEY'
+      );
+    }
+    log.warn('WEBHOOK AUTHENTICATION IS OFF - anyone can POST exports to /webhook/sendgrid. ' +
+      'Set SENDGRID_WEBHOOK_SECRET, basic auth or SENDGRID_VERIFICATION_KEY (required with NODE_ENV=production)');
+  }
 
   // Initialize database
-  console.log('[DB] Initializing database schema...');
+  log.info('Initializing database schema...');
   await initDb();
-  console.log('[DB] Database ready');
+  log.info('Database ready');
+
+  // Load Threefold custom field definitions (fails startup if a field an enabled sync writes to is
+  // missing; if Threefold is unreachable, starts anyway and retries in the background)
+  log.info('Loading custom field definitions...');
+  await loadCustomFieldDefinitions();
+  startCustomFieldRefresh();
+
+  // Start background sync worker (processes jobs queued by the webhook)
+  await startJobWorker();
+  log.info('Background sync worker started');
+
+  // Start outbox worker (retries failed Threefold ticket updates)
+  startOutboxWorker();
+  log.info(`Outbox retry worker started (every ${config.outboxPollIntervalSeconds}s, max ${config.outboxMaxAttempts} attempts)`);
+
+  // Start feed watchdog (alerts when the cases export stops arriving or shrinks sharply)
+  if (config.feedWatchdogEnabled) {
+    startFeedWatchdog();
+    log.info(`Feed watchdog started (stale after ${config.feedStaleHours}h, alerts to ${getAlertSink()})`);
+  }
 
   app.listen(config.port, () => {
-    console.log('-'.repeat(60));
-    console.log(`[SERVER] Listening on port ${config.port}`);
-    console.log(`[SERVER] Health check: http://localhost:${config.port}/health`);
-    console.log(`[SERVER] Webhook: POST http://localhost:${config.port}/webhook/sendgrid`);
-    console.log('='.repeat(60));
+    log.info(`Listening on port ${config.port}`, {
+      healthCheck: `http://localhost:${config.port}/health/ready`,
+      webhook: `POST http://localhost:${config.port}/webhook/sendgrid`,
+      jobStatus: `GET http://localhost:${config.port}/admin/jobs/:id`,
+      reviewQueue: `GET http://localhost:${config.port}/admin/review-queue`,
+    });
   });
 }
 
 main().catch((err) => {
-  console.error('Failed to start server:', err);
+  log.error('Failed to start server', { err });
   process.exit(1);
 });
@@ -0,0 +1,114 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { config } from './config.js';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+/**
+ * Correlation fields attached to every log line written inside withLogContext().
+ * Emitted in snake_case (syncLogId → sync_log_id).
+ */
+export interface LogContext {
+  syncLogId?: number;
+  jobId?: number;
+  messageId?: string; // Email Message-ID header
+  caseNo?: string;
+  ticketId?: number;
+  [key: string]: unknown;
+}
+
+export type LogFields = Record<string, unknown> & { err?: unknown };
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  // Logger that adds these fields to every line (e.g. { caseNo })
+  child(fields: LogFields): Logger;
+}
+
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Run fn with extra correlation fields (merged over any outer context) on every log line it writes,
+ * including lines from the modules it calls.
+ */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+  return contextStorage.run({ ...contextStorage.getStore(), ...context }, fn);
+}
+
+/**
+ * Current correlation fields.
+ */
+export function getLogContext(): LogContext {
+  return contextStorage.getStore() ?? {};
+}
+
+function toSnakeCase(key: string): string {
+  return key.replace(/[A-Z]/g, c => `_${c.toLowerCase()}`);
+}
+
+function serializeError(err: unknown): unknown {
+  if (err instanceof Error) {
+    return { name: err.name, message: err.message, stack: err.stack };
+  }
+  return err;
+}
+
+function formatPrettyValue(value: unknown): string {
+  if (typeof value === 'string') return /\s/.test(value) ? JSON.stringify(value) : value;
+  return JSON.stringify(value);
+}
+
+function write(level: LogLevel, component: string, msg: string, fields: LogFields): void {
+  if (LEVEL_ORDER[level] < (LEVEL_ORDER[config.logLevel] ?? LEVEL_ORDER.info)) {
+    return;
+  }
+
+  const { err, ...rest } = fields;
+  const data: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries({ ...getLogContext(), ...rest })) {
+    if (value !== undefined) data[toSnakeCase(key)] = value;
+  }
+
+  // warn/error go to stderr, like console.warn/console.error
+  const output = LEVEL_ORDER[level] >= LEVEL_ORDER.warn ? console.error : console.log;
+
+  if (config.logFormat === 'json') {
+    output(JSON.stringify({
+      time: new Date().toISOString(),
+      level,
+      component,
+      msg,
+      ...data,
+      ...(err !== undefined ? { err: serializeError(err) } : {}),
+    }));
+    return;
+  }
+
+  const levelTag = level === 'info' ? '' : ` ${level.toUpperCase()}`;
+  const extras = Object.entries(data).map(([key, value]) => `${key}=${formatPrettyValue(value)}`);
+  output(`[${component}]${levelTag} ${msg}${extras.length > 0 ? ` (${extras.join(' ')})` : ''}`);
+  if (err !== undefined) {
+    output(err instanceof Error ? err.stack ?? err.message : err);
+  }
+}
+
+/**
+ * Create a logger for a component (shown as the [COMPONENT] prefix in pretty mode).
+ *
+ * LOG_FORMAT=json writes one JSON object per line with level, component, msg, the current
+ * log context (sync_log_id, job_id, message_id, ...) and any fields; LOG_FORMAT=pretty writes
+ * the familiar "[COMPONENT] message (key=value)" lines. LOG_LEVEL filters both.
+ */
+export function createLogger(component: string, baseFields: LogFields = {}): Logger {
+  return {
+    debug: (msg, fields = {}) => write('debug', component, msg, { ...baseFields, ...fields }),
+    info: (msg, fields = {}) => write('info', component, msg, { ...baseFields, ...fields }),
+    warn: (msg, fields = {}) => write('warn', component, msg, { ...baseFields, ...fields }),
+    error: (msg, fields = {}) => write('error', component, msg, { ...baseFields, ...fields }),
+    child: fields => createLogger(component, { ...baseFields, ...fields }),
+  };
+}
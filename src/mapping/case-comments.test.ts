@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { renderCaseComment } from './case-comments.js';
+import { CodeEnforcementCaseRecord } from '../parsers/code-enforcement-cases.js';
+import type { CaseTransition } from '../sync/case-transitions.js';
+
+const record: CodeEnforcementCaseRecord = {
+  caseNo: 'CE25-0101',
+  caseOpened: '2025-01-02',
+  caseClosed: '2025-01-12',
+  caseType: 'CODE ENFORCEMENT',
+  caseSubType: 'MULTIPLE VIOLATIONS',
+  siteAddress: '19141 BOX CANYON RD, CORONA, CA 92881',
+  rawData: {},
+};
+
+function transition(overrides: Partial<CaseTransition>): CaseTransition {
+  return {
+    type: 'closed',
+    caseNo: record.caseNo,
+    previousOpened: record.caseOpened,
+    previousClosed: null,
+    opened: record.caseOpened,
+    closed: record.caseClosed,
+    ...overrides,
+  };
+}
+
+describe('renderCaseComment', () => {
+  it('fills in the closed template with the days open', () => {
+    assert.equal(
+      renderCaseComment('closed', record, transition({})),
+      'Case CE25-0101 (MULTIPLE VIOLATIONS) is now closed - closed 2025-01-12 after 10 days open'
+    );
+  });
+
+  it('lists the changed dates for dates_corrected', () => {
+    const corrected = { ...record, caseOpened: '2025-01-03', caseClosed: '2025-01-13' };
+    const comment = renderCaseComment(
+      'dates_corrected',
+      corrected,
+      transition({ type: 'dates_corrected', previousClosed: '2025-01-12', opened: '2025-01-03', closed: '2025-01-13' })
+    );
+    assert.equal(
+      comment,
+      'Case CE25-0101 dates corrected in TrakIT: opened 2025-01-02 → 2025-01-03, closed 2025-01-12 → 2025-01-13'
+    );
+  });
+
+  it('renders missing values as N/A', () => {
+    const reopened = { ...record, caseClosed: null };
+    const comment = renderCaseComment('reopened', reopened, transition({ type: 'reopened', closed: null }));
+    assert.equal(
+      comment,
+      'Case CE25-0101 has been reopened in TrakIT (previously closed N/A). This ticket needs attention again.'
+    );
+  });
+
+  it('returns null for disabled events', () => {
+    assert.equal(renderCaseComment('opened', { ...record, caseClosed: null }, transition({ type: 'opened' })), null);
+    assert.equal(renderCaseComment('first_linked', record, transition({})), null);
+  });
+});
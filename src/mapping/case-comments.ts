@@ -0,0 +1,139 @@
+import { CodeEnforcementCaseRecord } from '../parsers/code-enforcement-cases.js';
+import type { CaseTransition } from '../sync/case-transitions.js';
+import commentsConfig from './case-comments.json';
+
+/**
+ * Case lifecycle events that can post a ticket comment.
+ * - opened / closed / reopened / dates_corrected: the case transition since the last import
+ * - first_linked: the case was linked to this ticket for the first time
+ */
+export type CaseCommentEvent = 'opened' | 'closed' | 'reopened' | 'dates_corrected' | 'first_linked';
+
+export interface CaseCommentTemplate {
+  enabled: boolean;
+  template: string;
+}
+
+interface CaseCommentConfig {
+  events: Record<CaseCommentEvent, CaseCommentTemplate>;
+  // Per case number prefix (CE, CC, ...) overrides, merged over `events`
+  prefixes: Record<string, Partial<Record<CaseCommentEvent, Partial<CaseCommentTemplate>>>>;
+}
+
+const COMMENT_EVENTS: CaseCommentEvent[] = ['opened', 'closed', 'reopened', 'dates_corrected', 'first_linked'];
+
+/**
+ * Placeholders available in every template. Missing values render as "N/A".
+ * - daysOpen: days from opened to closed (or to today for an open case)
+ * - corrections: the changed dates, e.g. "opened 2025-01-02 → 2025-01-03" (dates_corrected)
+ */
+const PLACEHOLDERS = [
+  'caseNo',
+  'caseType',
+  'caseSubType',
+  'address',
+  'opened',
+  'closed',
+  'previousOpened',
+  'previousClosed',
+  'daysOpen',
+  'corrections',
+] as const;
+
+type CommentValues = Record<(typeof PLACEHOLDERS)[number], string | null>;
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+/**
+ * Validate the comment config at load time so a bad edit fails startup, not a sync.
+ */
+function validateComments(comments: CaseCommentConfig): CaseCommentConfig {
+  const checkTemplate = (label: string, template: Partial<CaseCommentTemplate>) => {
+    if (template.template === undefined) return;
+    for (const [, name] of template.template.matchAll(PLACEHOLDER_PATTERN)) {
+      if (!(PLACEHOLDERS as readonly string[]).includes(name)) {
+        throw new Error(`${label}: unknown placeholder {${name}} (available: ${PLACEHOLDERS.join(', ')})`);
+      }
+    }
+  };
+
+  for (const event of COMMENT_EVENTS) {
+    const template = comments.events[event];
+    if (!template?.template) {
+      throw new Error(`Case comment "${event}" is missing "template"`);
+    }
+    checkTemplate(`Case comment "${event}"`, template);
+  }
+
+  for (const [prefix, overrides] of Object.entries(comments.prefixes)) {
+    for (const [event, template] of Object.entries(overrides)) {
+      if (!COMMENT_EVENTS.includes(event as CaseCommentEvent)) {
+        throw new Error(`Case comment prefix "${prefix}": unknown event "${event}"`);
+      }
+      checkTemplate(`Case comment "${event}" for prefix "${prefix}"`, template);
+    }
+  }
+
+  return comments;
+}
+
+const CASE_COMMENTS = validateComments(commentsConfig as CaseCommentConfig);
+
+/**
+ * The template for an event, with any override for the case's prefix applied.
+ */
+export function getCaseCommentTemplate(event: CaseCommentEvent, caseNo: string): CaseCommentTemplate {
+  const prefix = caseNo.substring(0, 2).toUpperCase();
+  return { ...CASE_COMMENTS.events[event], ...CASE_COMMENTS.prefixes[prefix]?.[event] };
+}
+
+/**
+ * Whole days from opened to closed, or to today for a case that is still open.
+ */
+function daysOpen(opened: string | null, closed: string | null): string | null {
+  if (!opened) return null;
+  const start = Date.parse(`${opened}T00:00:00Z`);
+  const end = closed ? Date.parse(`${closed}T00:00:00Z`) : Date.now();
+  if (Number.isNaN(start) || Number.isNaN(end)) return null;
+  return String(Math.max(0, Math.floor((end - start) / 86_400_000)));
+}
+
+function describeCorrections(transition: CaseTransition): string | null {
+  const corrections: string[] = [];
+  if (transition.previousOpened !== transition.opened) {
+    corrections.push(`opened ${transition.previousOpened ?? 'N/A'} → ${transition.opened ?? 'N/A'}`);
+  }
+  if (transition.previousClosed !== transition.closed) {
+    corrections.push(`closed ${transition.previousClosed ?? 'N/A'} → ${transition.closed ?? 'N/A'}`);
+  }
+  return corrections.length > 0 ? corrections.join(', ') : null;
+}
+
+/**
+ * Render the ticket comment for a case event (src/mapping/case-comments.json).
+ *
+ * @returns The comment, or null if the event is disabled (for this case's prefix)
+ */
+export function renderCaseComment(
+  event: CaseCommentEvent,
+  record: CodeEnforcementCaseRecord,
+  transition: CaseTransition
+): string | null {
+  const { enabled, template } = getCaseCommentTemplate(event, record.caseNo);
+  if (!enabled) return null;
+
+  const values: CommentValues = {
+    caseNo: record.caseNo,
+    caseType: record.caseType || null,
+    caseSubType: record.caseSubType || null,
+    address: record.siteAddress || null,
+    opened: record.caseOpened,
+    closed: record.caseClosed,
+    previousOpened: transition.previousOpened,
+    previousClosed: transition.previousClosed,
+    daysOpen: daysOpen(record.caseOpened, record.caseClosed),
+    corrections: describeCorrections(transition),
+  };
+
+  return template.replace(PLACEHOLDER_PATTERN, (_, name: keyof CommentValues) => values[name] ?? 'N/A');
+}
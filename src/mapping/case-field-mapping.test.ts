@@ -0,0 +1,75 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mapCaseFields, diffCaseFields } from './case-field-mapping.js';
+
+describe('mapCaseFields', () => {
+  it('maps an open case', () => {
+    assert.deepEqual(mapCaseFields({ CASE_NO: 'CE25-0101', STARTED: '1/2/2025 12:00:00 AM', CLOSED: '' }), {
+      cc_case_opened: '2025-01-02',
+      case_close_date: null,
+      last_case_status: 'open',
+    });
+  });
+
+  it('maps a closed case', () => {
+    assert.deepEqual(mapCaseFields({ CASE_NO: 'CE25-0101', STARTED: '1/2/2025', CLOSED: '12/31/2025' }), {
+      cc_case_opened: '2025-01-02',
+      case_close_date: '2025-12-31',
+      last_case_status: 'closed',
+    });
+  });
+
+  it('maps unparseable and missing dates to null', () => {
+    const values = mapCaseFields({ CASE_NO: 'CE25-0101', STARTED: '2025-01-02' });
+    assert.equal(values.cc_case_opened, null);
+    assert.equal(values.case_close_date, null);
+    assert.equal(values.last_case_status, 'open');
+  });
+
+  it('treats whitespace-only columns as empty', () => {
+    const values = mapCaseFields({ CASE_NO: 'CE25-0101', STARTED: '1/2/2025', CLOSED: '   ' });
+    assert.equal(values.case_close_date, null);
+    assert.equal(values.last_case_status, 'open');
+  });
+});
+
+describe('diffCaseFields', () => {
+  const closedCase = { cc_case_opened: '2025-01-02', case_close_date: '2025-12-31', last_case_status: 'closed' };
+
+  it('returns nothing when the ticket already has the mapped values', () => {
+    const { changes, payload } = diffCaseFields(closedCase, { ...closedCase, unrelated_field: 'x' });
+    assert.deepEqual(changes, []);
+    assert.deepEqual(payload, {});
+  });
+
+  it('sends only the changed fields', () => {
+    const { changes, payload } = diffCaseFields(closedCase, {
+      cc_case_opened: '2025-01-02',
+      case_close_date: null,
+      last_case_status: 'open',
+    });
+    assert.deepEqual(payload, { case_close_date: '2025-12-31', last_case_status: 'closed' });
+    assert.deepEqual(changes, [
+      { fieldKey: 'case_close_date', current: null, wanted: '2025-12-31' },
+      { fieldKey: 'last_case_status', current: 'open', wanted: 'closed' },
+    ]);
+  });
+
+  it('treats empty strings and missing ticket fields as null', () => {
+    const openCase = { cc_case_opened: '2025-01-02', case_close_date: null, last_case_status: 'open' };
+    const { changes } = diffCaseFields(openCase, { cc_case_opened: '2025-01-02', case_close_date: '', last_case_status: 'open' });
+    assert.deepEqual(changes, []);
+
+    const { payload } = diffCaseFields(openCase, {});
+    assert.deepEqual(payload, { cc_case_opened: '2025-01-02', last_case_status: 'open' });
+  });
+
+  it('clears a field only when its mapping has clearWhenEmpty', () => {
+    const { payload } = diffCaseFields(
+      { cc_case_opened: null, case_close_date: null, last_case_status: 'open' },
+      { cc_case_opened: '2025-01-02', case_close_date: '2025-12-31', last_case_status: 'closed' }
+    );
+    // cc_case_opened is left alone, case_close_date (clearWhenEmpty) is cleared
+    assert.deepEqual(payload, { case_close_date: null, last_case_status: 'open' });
+  });
+});
@@ -0,0 +1,188 @@
+import crypto from 'crypto';
+import { normalizeDate } from '../parsers/csv-utils.js';
+import type { CustomFieldType } from '../sync/custom-field-definitions.js';
+import mappingConfig from './case-fields.json';
+
+/**
+ * How a case CSV column (or columns) becomes a Threefold custom field value.
+ * - trim: column value, trimmed (empty → null)
+ * - date: M/D/YYYY column normalized to YYYY-MM-DD (unparseable → null)
+ * - enum: trimmed, upper-cased column value looked up in `values` (unknown → `default`, or null)
+ * - concat: non-empty `sources` columns joined with `separator` (default " ")
+ * - presence: `present` when every `sources` column has a value, otherwise `absent`
+ */
+export type CaseFieldTransform = 'trim' | 'date' | 'enum' | 'concat' | 'presence';
+
+export interface CaseFieldMapping {
+  target: string; // Threefold custom field key
+  transform: CaseFieldTransform;
+  source?: string; // CSV column (trim, date, enum)
+  sources?: string[]; // CSV columns (concat, presence)
+  values?: Record<string, string>; // enum lookup
+  default?: string | null; // enum fallback
+  separator?: string; // concat separator
+  present?: string; // presence value when all sources are set
+  absent?: string; // presence value otherwise
+  // Send null to clear the ticket field when the mapped value is empty (default: leave the ticket value alone)
+  clearWhenEmpty?: boolean;
+  // Include in the case content hash (default: true). Turn off for values derived from other mapped columns.
+  hash?: boolean;
+}
+
+export type CaseFieldValues = Record<string, string | null>;
+
+// Custom field types each transform can write to
+const TRANSFORM_FIELD_TYPES: Record<CaseFieldTransform, CustomFieldType[]> = {
+  trim: ['string', 'select'],
+  date: ['date'],
+  enum: ['select', 'string'],
+  concat: ['string'],
+  presence: ['select', 'string'],
+};
+
+/**
+ * Validate the mapping config at load time so a bad edit fails startup, not a sync.
+ */
+function validateMapping(fields: CaseFieldMapping[]): CaseFieldMapping[] {
+  const seen = new Set<string>();
+
+  for (const field of fields) {
+    const label = `case field mapping "${field.target}"`;
+    if (!field.target) {
+      throw new Error('Case field mapping entry is missing "target"');
+    }
+    if (seen.has(field.target)) {
+      throw new Error(`Duplicate ${label}`);
+    }
+    seen.add(field.target);
+
+    switch (field.transform) {
+      case 'trim':
+      case 'date':
+        if (!field.source) throw new Error(`${label}: "${field.transform}" requires "source"`);
+        break;
+      case 'enum':
+        if (!field.source || !field.values) throw new Error(`${label}: "enum" requires "source" and "values"`);
+        break;
+      case 'concat':
+        if (!field.sources?.length) throw new Error(`${label}: "concat" requires "sources"`);
+        break;
+      case 'presence':
+        if (!field.sources?.length || field.present === undefined || field.absent === undefined) {
+          throw new Error(`${label}: "presence" requires "sources", "present" and "absent"`);
+        }
+        break;
+      default:
+        throw new Error(`${label}: unknown transform "${(field as CaseFieldMapping).transform}"`);
+    }
+  }
+
+  return fields;
+}
+
+const CASE_FIELD_MAPPING = validateMapping(mappingConfig.fields as CaseFieldMapping[]);
+
+/**
+ * The configured case column → custom field mappings (src/mapping/case-fields.json).
+ */
+export function getCaseFieldMapping(): readonly CaseFieldMapping[] {
+  return CASE_FIELD_MAPPING;
+}
+
+/**
+ * Custom fields the case mapping writes to, with the field types each may have in Threefold.
+ */
+export function getCaseFieldTypes(): Record<string, CustomFieldType[]> {
+  const types: Record<string, CustomFieldType[]> = {};
+  for (const field of CASE_FIELD_MAPPING) {
+    types[field.target] = TRANSFORM_FIELD_TYPES[field.transform];
+  }
+  return types;
+}
+
+function column(row: Record<string, string>, name: string): string {
+  return row[name]?.trim() ?? '';
+}
+
+/**
+ * Apply one mapping to a CSV row.
+ */
+function applyTransform(field: CaseFieldMapping, row: Record<string, string>): string | null {
+  switch (field.transform) {
+    case 'trim':
+      return column(row, field.source!) || null;
+    case 'date':
+      return normalizeDate(row[field.source!]);
+    case 'enum': {
+      const value = column(row, field.source!).toUpperCase();
+      return field.values![value] ?? field.default ?? null;
+    }
+    case 'concat':
+      return field.sources!.map(s => column(row, s)).filter(Boolean).join(field.separator ?? ' ') || null;
+    case 'presence':
+      return field.sources!.every(s => column(row, s) !== '') ? field.present! : field.absent!;
+  }
+}
+
+/**
+ * Map a case CSV row to Threefold custom field values.
+ */
+export function mapCaseFields(row: Record<string, string>): CaseFieldValues {
+  const values: CaseFieldValues = {};
+  for (const field of CASE_FIELD_MAPPING) {
+    values[field.target] = applyTransform(field, row);
+  }
+  return values;
+}
+
+/**
+ * Generate a content hash for change detection from the case number and mapped field values.
+ * Only fields with hash enabled are included, in mapping order.
+ */
+export function hashCaseFields(caseNo: string, row: Record<string, string>): string {
+  const values = mapCaseFields(row);
+  const content = [
+    caseNo,
+    ...CASE_FIELD_MAPPING.filter(f => f.hash !== false).map(f => values[f.target] ?? ''),
+  ].join('|');
+
+  return crypto.createHash('sha256').update(content).digest('hex').substring(0, 16);
+}
+
+/**
+ * A difference between a ticket's current custom field and the mapped case value.
+ */
+export interface CaseFieldChange {
+  fieldKey: string;
+  current: unknown;
+  wanted: string | null;
+}
+
+/**
+ * Compare mapped case values against a ticket's current custom fields.
+ *
+ * Values are normalized (undefined/empty string → null) before comparing. Empty mapped values
+ * only produce a change (clearing the field) when the mapping has clearWhenEmpty.
+ *
+ * @returns Changed fields and the payload to send (only changed fields)
+ */
+export function diffCaseFields(
+  values: CaseFieldValues,
+  currentFields: Record<string, unknown>
+): { changes: CaseFieldChange[]; payload: CaseFieldValues } {
+  const changes: CaseFieldChange[] = [];
+  const payload: CaseFieldValues = {};
+
+  for (const field of CASE_FIELD_MAPPING) {
+    const current = currentFields[field.target] === '' ? null : currentFields[field.target] ?? null;
+    const wanted = values[field.target] ?? null;
+
+    if (current === wanted) continue;
+    if (wanted === null && !field.clearWhenEmpty) continue;
+
+    changes.push({ fieldKey: field.target, current, wanted });
+    payload[field.target] = wanted;
+  }
+
+  return { changes, payload };
+}
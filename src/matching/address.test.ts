@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeAddress, scoreAddressSimilarity } from './address.js';
+
+describe('normalizeAddress', () => {
+  it('drops city, state and zip and abbreviates the suffix', () => {
+    assert.deepEqual(normalizeAddress('19141 Box Canyon Road, Corona, CA 92881'), {
+      houseNumber: '19141',
+      streetName: 'BOX CANYON',
+      street: '19141 BOX CANYON RD',
+    });
+  });
+
+  it('abbreviates directionals and drops them from the street name', () => {
+    const address = normalizeAddress('815 West Sixth Street');
+    assert.equal(address.street, '815 W SIXTH ST');
+    assert.equal(address.streetName, 'SIXTH');
+  });
+
+  it('drops unit numbers', () => {
+    assert.equal(normalizeAddress('1200 Main St Apt 4B').street, '1200 MAIN ST');
+    assert.equal(normalizeAddress('1200 Main St #4B').street, '1200 MAIN ST');
+    assert.equal(normalizeAddress('1200 Main St Suite 100, Corona').street, '1200 MAIN ST');
+  });
+
+  it('strips punctuation', () => {
+    assert.equal(normalizeAddress('1200 S. Main St.').street, '1200 S MAIN ST');
+  });
+
+  it('keeps a street name made only of suffix words', () => {
+    const address = normalizeAddress('300 Parkway Drive');
+    assert.equal(address.houseNumber, '300');
+    assert.equal(address.streetName, 'PKWY DR');
+  });
+
+  it('has no house number when the address does not start with one', () => {
+    assert.equal(normalizeAddress('Main Street').houseNumber, null);
+  });
+});
+
+describe('scoreAddressSimilarity', () => {
+  it('scores the same street line as 1', () => {
+    assert.equal(scoreAddressSimilarity('19141 Box Canyon Road, Corona, CA', '19141 BOX CANYON RD'), 1);
+  });
+
+  it('scores a different suffix or directional as 0.75', () => {
+    assert.equal(scoreAddressSimilarity('815 W Sixth St', '815 Sixth Street'), 0.75);
+    assert.equal(scoreAddressSimilarity('1200 Main St', '1200 Main Ave'), 0.75);
+  });
+
+  it('scores a different house number as 0', () => {
+    assert.equal(scoreAddressSimilarity('1200 Main St', '1202 Main St'), 0);
+  });
+
+  it('scores a different street as 0', () => {
+    assert.equal(scoreAddressSimilarity('1200 Main St', '1200 Ontario Ave'), 0);
+  });
+
+  it('scores addresses without a house number as 0', () => {
+    assert.equal(scoreAddressSimilarity('Main St', 'Main St'), 0);
+  });
+});
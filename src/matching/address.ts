@@ -0,0 +1,101 @@
+/**
+ * Address normalization for matching TrakIT site addresses against Threefold ticket addresses.
+ */
+
+/**
+ * Street suffix and directional abbreviations (USPS style, plus TrakIT's "CI" for circle).
+ */
+const ABBREVIATIONS: Record<string, string> = {
+  STREET: 'ST',
+  AVENUE: 'AVE',
+  AV: 'AVE',
+  ROAD: 'RD',
+  DRIVE: 'DR',
+  LANE: 'LN',
+  COURT: 'CT',
+  CIRCLE: 'CI',
+  CIR: 'CI',
+  BOULEVARD: 'BLVD',
+  PLACE: 'PL',
+  PARKWAY: 'PKWY',
+  HIGHWAY: 'HWY',
+  TERRACE: 'TER',
+  TRAIL: 'TRL',
+  WAY: 'WY',
+  NORTH: 'N',
+  SOUTH: 'S',
+  EAST: 'E',
+  WEST: 'W',
+};
+
+const ABBREVIATED_WORDS = new Set(Object.values(ABBREVIATIONS));
+
+/**
+ * Unit designators - everything from one of these onwards is dropped.
+ */
+const UNIT_DESIGNATORS = new Set(['APT', 'UNIT', 'STE', 'SUITE', '#', 'SPC', 'SPACE', 'BLDG']);
+
+/**
+ * Parsed street line of an address.
+ */
+export interface NormalizedAddress {
+  houseNumber: string | null;
+  streetName: string;   // Street name without suffix/directionals (e.g., "BOX CANYON")
+  street: string;       // Full normalized street line (e.g., "19141 BOX CANYON RD")
+}
+
+/**
+ * Normalize the street line of an address.
+ * Drops city/state/zip (anything after the first comma) and unit numbers,
+ * uppercases, strips punctuation and abbreviates suffixes/directionals.
+ *
+ * Example: "19141 Box Canyon Road, Corona, CA 92881" → "19141 BOX CANYON RD"
+ */
+export function normalizeAddress(address: string): NormalizedAddress {
+  const streetLine = address.split(',')[0] ?? '';
+  const tokens = streetLine
+    .toUpperCase()
+    .replace(/#/g, ' # ')
+    .replace(/[^A-Z0-9# ]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  const words: string[] = [];
+  for (const token of tokens) {
+    if (UNIT_DESIGNATORS.has(token)) break;
+    words.push(ABBREVIATIONS[token] ?? token);
+  }
+
+  const houseNumber = words.length > 0 && /^\d+[A-Z]?$/.test(words[0]) ? words[0] : null;
+  const nameWords = houseNumber ? words.slice(1) : words;
+  const coreWords = nameWords.filter(w => !ABBREVIATED_WORDS.has(w));
+  const streetName = (coreWords.length > 0 ? coreWords : nameWords).join(' ');
+
+  return {
+    houseNumber,
+    streetName,
+    street: words.join(' '),
+  };
+}
+
+/**
+ * Score how well two addresses refer to the same property (0..1).
+ * - 1.0: identical normalized street line
+ * - 0.75: same house number and street name, suffix/directional differs
+ * - 0: anything else
+ */
+export function scoreAddressSimilarity(a: string, b: string): number {
+  const left = normalizeAddress(a);
+  const right = normalizeAddress(b);
+
+  if (!left.houseNumber || !right.houseNumber || left.houseNumber !== right.houseNumber) {
+    return 0;
+  }
+  if (left.street === right.street) {
+    return 1;
+  }
+  if (left.streetName === right.streetName) {
+    return 0.75;
+  }
+  return 0;
+}
@@ -0,0 +1,164 @@
+import { config } from '../config.js';
+import { CodeEnforcementCaseRecord } from '../parsers/code-enforcement-cases.js';
+import { searchTickets, TicketWithCustomFields } from '../sync/threefold.js';
+import { normalizeAddress, scoreAddressSimilarity } from './address.js';
+import { AddressMatchResult, MatchCandidate } from './types.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('MATCH');
+
+// Tickets created this many days after the case opened are still considered
+// (residents often report after an inspector has already opened the case)
+const POST_OPEN_GRACE_DAYS = 7;
+
+// Weights of the combined score
+const ADDRESS_WEIGHT = 0.6;
+const DATE_WEIGHT = 0.4;
+
+// Best candidate must beat the runner-up by this much to be applied automatically
+const MIN_SCORE_MARGIN = 0.1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Address search paging - a common street name can return many tickets in the date window
+const SEARCH_PAGE_SIZE = 50;
+const MAX_SEARCH_RESULTS = 250;
+
+/**
+ * Score how close a ticket's creation is to the case opened date (0..1).
+ */
+function scoreDateProximity(daysApart: number): number {
+  if (daysApart <= 3) return 1;
+  if (daysApart <= 14) return 0.75;
+  if (daysApart <= 30) return 0.5;
+  if (daysApart <= config.matchingLookbackDays) return 0.25;
+  return 0;
+}
+
+/**
+ * Score a ticket as a candidate for a case.
+ */
+function scoreCandidate(record: CodeEnforcementCaseRecord, ticket: TicketWithCustomFields): MatchCandidate {
+  const openedMs = Date.parse(`${record.caseOpened}T00:00:00Z`);
+  const createdMs = Date.parse(ticket.createdAt);
+  const daysApart = Math.abs(createdMs - openedMs) / DAY_MS;
+
+  const addressScore = scoreAddressSimilarity(record.siteAddress, ticket.address) * ADDRESS_WEIGHT;
+  const dateScore = scoreDateProximity(daysApart) * DATE_WEIGHT;
+
+  return {
+    ticketId: ticket.id,
+    shortId: ticket.shortId,
+    address: ticket.address,
+    createdAt: ticket.createdAt,
+    score: Number((addressScore + dateScore).toFixed(3)),
+    addressScore,
+    dateScore,
+    daysApart: Math.round(daysApart),
+  };
+}
+
+/**
+ * Page through the open tickets matching an address search, up to MAX_SEARCH_RESULTS.
+ *
+ * @returns The tickets, and whether more matched than were fetched
+ */
+async function searchCandidateTickets(
+  streetWord: string,
+  createdAfter: string,
+  createdBefore: string
+): Promise<{ tickets: TicketWithCustomFields[]; truncated: boolean }> {
+  const tickets: TicketWithCustomFields[] = [];
+  let hasMore = true;
+
+  while (hasMore && tickets.length < MAX_SEARCH_RESULTS) {
+    const page = await searchTickets(
+      { address: streetWord, createdAfter, createdBefore },
+      { limit: SEARCH_PAGE_SIZE, offset: tickets.length, includeClosed: false }
+    );
+    tickets.push(...page.tickets);
+    hasMore = page.hasMore && page.tickets.length > 0;
+  }
+
+  return { tickets, truncated: hasMore };
+}
+
+/**
+ * Match a case to an existing open ticket by site address and opened date.
+ *
+ * Used when no ticket carries the case's cc_case_number (e.g., tickets created from
+ * resident reports before TrakIT assigned a case number).
+ *
+ * Logic:
+ * 1. Search open tickets whose address contains the case's street name,
+ *    created within MATCHING_LOOKBACK_DAYS before (or shortly after) the case opened,
+ *    paging through up to MAX_SEARCH_RESULTS of them
+ * 2. Drop tickets already linked to another case
+ * 3. Score each candidate on address similarity and creation date proximity
+ * 4. Return a match only if the best score reaches MATCHING_CONFIDENCE_THRESHOLD and clearly
+ *    beats the runner-up - otherwise hold the candidates for review. If the search had more
+ *    results than were fetched, a better ticket may be among them, so the case is held too
+ */
+export async function matchCaseByAddress(record: CodeEnforcementCaseRecord): Promise<AddressMatchResult> {
+  const address = normalizeAddress(record.siteAddress);
+  if (!record.caseOpened || !address.houseNumber || !address.streetName) {
+    return { status: 'no_candidates' };
+  }
+
+  const openedMs = Date.parse(`${record.caseOpened}T00:00:00Z`);
+  // Search by the longest street name word - the house number is checked when scoring
+  const streetWord = address.streetName.split(' ').sort((a, b) => b.length - a.length)[0];
+
+  const { tickets, truncated } = await searchCandidateTickets(
+    streetWord,
+    new Date(openedMs - config.matchingLookbackDays * DAY_MS).toISOString(),
+    new Date(openedMs + POST_OPEN_GRACE_DAYS * DAY_MS).toISOString()
+  );
+
+  const ticketsById = new Map<number, TicketWithCustomFields>();
+  const candidates: MatchCandidate[] = [];
+
+  for (const ticket of tickets) {
+    const linkedCase = ticket.customFields.cc_case_number;
+    if (typeof linkedCase === 'string' && linkedCase.trim() !== '' && linkedCase !== record.caseNo) {
+      continue;
+    }
+
+    const candidate = scoreCandidate(record, ticket);
+    if (candidate.addressScore === 0) {
+      continue;
+    }
+
+    ticketsById.set(ticket.id, ticket);
+    candidates.push(candidate);
+  }
+
+  if (candidates.length === 0) {
+    return { status: 'no_candidates' };
+  }
+
+  candidates.sort((a, b) => b.score - a.score);
+  const [best, runnerUp] = candidates;
+
+  if (best.score < config.matchingConfidenceThreshold) {
+    return { status: 'held', reason: 'low_confidence', candidates };
+  }
+
+  if (runnerUp && best.score - runnerUp.score < MIN_SCORE_MARGIN) {
+    return { status: 'held', reason: 'ambiguous', candidates };
+  }
+
+  if (truncated) {
+    log.warn(`Address search for "${streetWord}" matched more than ${MAX_SEARCH_RESULTS} tickets - holding for review`, {
+      caseNo: record.caseNo,
+    });
+    return { status: 'held', reason: 'ambiguous', candidates };
+  }
+
+  return {
+    status: 'matched',
+    ticket: ticketsById.get(best.ticketId)!,
+    candidate: best,
+    candidates,
+  };
+}
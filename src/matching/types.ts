@@ -0,0 +1,28 @@
+import { TicketWithCustomFields } from '../sync/threefold.js';
+
+/**
+ * A ticket considered as a possible match for a case, with its score breakdown.
+ */
+export interface MatchCandidate {
+  ticketId: number;
+  shortId: string;
+  address: string;
+  createdAt: string;
+  score: number;         // 0..1 combined score
+  addressScore: number;  // Contribution from address similarity
+  dateScore: number;     // Contribution from created_at proximity to the case opened date
+  daysApart: number;     // |ticket created_at - case opened| in days
+}
+
+/**
+ * Why a set of candidates was held for review rather than applied.
+ */
+export type HoldReason = 'low_confidence' | 'ambiguous';
+
+/**
+ * Outcome of address-based matching for a case.
+ */
+export type AddressMatchResult =
+  | { status: 'matched'; ticket: TicketWithCustomFields; candidate: MatchCandidate; candidates: MatchCandidate[] }
+  | { status: 'held'; reason: HoldReason; candidates: MatchCandidate[] }
+  | { status: 'no_candidates' };
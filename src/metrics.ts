@@ -0,0 +1,106 @@
+import client from 'prom-client';
+import { pool } from './state/db.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('METRICS');
+
+/**
+ * Prometheus metrics, exposed at GET /metrics.
+ */
+export const metricsRegistry = new client.Registry();
+
+client.collectDefaultMetrics({ register: metricsRegistry });
+
+// ============ Webhook & Parsing ============
+
+export const emailsReceived = new client.Counter({
+  name: 'corona_sync_emails_received_total',
+  help: 'SendGrid emails received, by outcome (queued, ignored, rejected)',
+  labelNames: ['outcome'] as const,
+  registers: [metricsRegistry],
+});
+
+export const rowsParsed = new client.Counter({
+  name: 'corona_sync_rows_parsed_total',
+  help: 'CSV rows parsed into records, by report type',
+  labelNames: ['report'] as const,
+  registers: [metricsRegistry],
+});
+
+export const rowsSkipped = new client.Counter({
+  name: 'corona_sync_rows_skipped_total',
+  help: 'CSV rows skipped while parsing, by report type and reason',
+  labelNames: ['report', 'reason'] as const,
+  registers: [metricsRegistry],
+});
+
+// ============ Case Sync ============
+
+export const caseChangesDetected = new client.Counter({
+  name: 'corona_sync_case_changes_total',
+  help: 'Case changes detected against stored state, by change type (new, updated)',
+  labelNames: ['change_type'] as const,
+  registers: [metricsRegistry],
+});
+
+export const caseResults = new client.Counter({
+  name: 'corona_sync_case_results_total',
+  help: 'Threefold outcome per changed case (updated, unchanged, no_ticket, error, ...)',
+  labelNames: ['result'] as const,
+  registers: [metricsRegistry],
+});
+
+// ============ Threefold API ============
+
+export const threefoldRequests = new client.Counter({
+  name: 'corona_sync_threefold_requests_total',
+  help: 'Threefold API requests (each attempt), by endpoint, method and status code',
+  labelNames: ['endpoint', 'method', 'status'] as const,
+  registers: [metricsRegistry],
+});
+
+export const threefoldRequestDuration = new client.Histogram({
+  name: 'corona_sync_threefold_request_duration_seconds',
+  help: 'Threefold API request latency (each attempt), by endpoint and method',
+  labelNames: ['endpoint', 'method'] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 15, 30],
+  registers: [metricsRegistry],
+});
+
+/**
+ * Endpoint label for a Threefold API path - drops the query string and replaces IDs,
+ * so /api/external/tickets/123?x=1 becomes /api/external/tickets/:id.
+ */
+export function threefoldEndpointLabel(path: string): string {
+  return path.split('?')[0].replace(/\/\d+(?=\/|$)/g, '/:id');
+}
+
+// ============ Sync Freshness ============
+
+/**
+ * Seconds since the last sync run of each type that completed without a fatal error.
+ * Read from sync_log on each scrape, so it survives restarts. If the query fails the gauge is
+ * left empty rather than failing the whole scrape - alert on absent() as well as age.
+ */
+new client.Gauge({
+  name: 'corona_sync_last_success_age_seconds',
+  help: 'Seconds since the last sync run (by sync type) that completed without a fatal error',
+  labelNames: ['sync_type'] as const,
+  registers: [metricsRegistry],
+  async collect() {
+    this.reset();
+    try {
+      const result = await pool.query(
+        `SELECT sync_type, EXTRACT(EPOCH FROM NOW() - MAX(completed_at))::float AS age_seconds
+         FROM sync_log
+         WHERE completed_at IS NOT NULL AND error_message IS NULL
+         GROUP BY sync_type`
+      );
+      for (const row of result.rows as Array<{ sync_type: string; age_seconds: number }>) {
+        this.set({ sync_type: row.sync_type }, row.age_seconds);
+      }
+    } catch (err) {
+      log.warn('Failed to read last sync times', { err });
+    }
+  },
+});
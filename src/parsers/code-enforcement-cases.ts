@@ -1,5 +1,9 @@
-import { parse } from 'csv-parse/sync';
-import crypto from 'crypto';
+import { parseTrakitCsv, normalizeDate, buildAddress } from './csv-utils.js';
+import { hashCaseFields } from '../mapping/case-field-mapping.js';
+import { rowsParsed, rowsSkipped } from '../metrics.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('PARSE');
 
 /**
  * Parsed Code Enforcement Case record from CSV.
@@ -14,45 +18,6 @@ export interface CodeEnforcementCaseRecord {
   rawData: Record<string, string>; // Original CSV row data
 }
 
-/**
- * Normalize date from TrakIT format to ISO-8601 date (YYYY-MM-DD).
- * Input: "11/10/2022 12:00:00 AM" or "11/10/2022"
- * Output: "2022-11-10"
- */
-function normalizeDate(dateStr: string | undefined | null): string | null {
-  if (!dateStr || dateStr.trim() === '') return null;
-
-  // Strip time part if present (e.g., " 12:00:00 AM")
-  const datePart = dateStr.split(' ')[0];
-
-  // Parse M/D/YYYY format
-  const match = datePart.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
-  if (!match) return null;
-
-  const [, month, day, year] = match;
-  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
-}
-
-/**
- * Build full address from components.
- */
-function buildAddress(row: Record<string, string>): string {
-  const parts: string[] = [];
-
-  if (row.SITE_ADDR?.trim()) parts.push(row.SITE_ADDR.trim());
-
-  const cityStateZip: string[] = [];
-  if (row.SITE_CITY?.trim()) cityStateZip.push(row.SITE_CITY.trim());
-  if (row.SITE_STATE?.trim()) cityStateZip.push(row.SITE_STATE.trim());
-  if (row.SITE_ZIP?.trim() && row.SITE_ZIP.trim() !== '0') cityStateZip.push(row.SITE_ZIP.trim());
-
-  if (cityStateZip.length > 0) {
-    parts.push(cityStateZip.join(', '));
-  }
-
-  return parts.join(', ');
-}
-
 /**
  * Validate case number format.
  * Expected: ^C[A-Z]\d{2}-\d+$ (e.g., CE22-1639, CC25-0774)
@@ -63,16 +28,11 @@ export function isValidCaseNo(caseNo: string): boolean {
 
 /**
  * Generate a content hash for change detection.
- * Includes: caseNo, caseOpened, caseClosed
+ * Includes: caseNo plus every column mapped to a custom field (see src/mapping/case-fields.json),
+ * so a change to any synced value is picked up.
  */
 export function generateCaseHash(record: CodeEnforcementCaseRecord): string {
-  const content = [
-    record.caseNo,
-    record.caseOpened ?? '',
-    record.caseClosed ?? '',
-  ].join('|');
-
-  return crypto.createHash('sha256').update(content).digest('hex').substring(0, 16);
+  return hashCaseFields(record.caseNo, record.rawData);
 }
 
 /**
@@ -92,18 +52,7 @@ export function generateCaseHash(record: CodeEnforcementCaseRecord): string {
  * - Case_Completion: Completion count
  */
 export async function parseCodeEnforcementCasesCsv(csvContent: string): Promise<CodeEnforcementCaseRecord[]> {
-  // Remove BOM if present
-  const cleanContent = csvContent.replace(/^\uFEFF/, '');
-
-  // Remove null bytes that can corrupt CSV parsing
-  const sanitized = cleanContent.replace(/\x00/g, '');
-
-  const rows = parse(sanitized, {
-    columns: true,
-    skip_empty_lines: true,
-    trim: true,
-    relax_column_count: true,
-  }) as Record<string, string>[];
+  const rows = parseTrakitCsv(csvContent);
 
   const records: CodeEnforcementCaseRecord[] = [];
   let skipped = 0;
@@ -113,7 +62,7 @@ export async function parseCodeEnforcementCasesCsv(csvContent: string): Promise<
 
     // Validate case number format
     if (!isValidCaseNo(caseNo)) {
-      console.log(`[PARSE] Skipping invalid case number: "${caseNo}"`);
+      log.info(`Skipping invalid case number: "${caseNo}"`);
       skipped++;
       continue;
     }
@@ -132,8 +81,11 @@ export async function parseCodeEnforcementCasesCsv(csvContent: string): Promise<
   }
 
   if (skipped > 0) {
-    console.log(`[PARSE] Skipped ${skipped} records with invalid case numbers`);
+    log.info(`Skipped ${skipped} records with invalid case numbers`);
   }
 
+  rowsParsed.inc({ report: 'cases' }, records.length);
+  rowsSkipped.inc({ report: 'cases', reason: 'invalid_case_no' }, skipped);
+
   return records;
 }
@@ -0,0 +1,59 @@
+import { parse } from 'csv-parse/sync';
+
+/**
+ * Parse TrakIT CSV export content into row objects keyed by column header.
+ * Strips the BOM and null bytes that TrakIT exports sometimes contain.
+ */
+export function parseTrakitCsv(csvContent: string): Record<string, string>[] {
+  // Remove BOM if present
+  const cleanContent = csvContent.replace(/^\uFEFF/, '');
+
+  // Remove null bytes that can corrupt CSV parsing
+  const sanitized = cleanContent.replace(/\x00/g, '');
+
+  return parse(sanitized, {
+    columns: true,
+    skip_empty_lines: true,
+    trim: true,
+    relax_column_count: true,
+  }) as Record<string, string>[];
+}
+
+/**
+ * Normalize date from TrakIT format to ISO-8601 date (YYYY-MM-DD).
+ * Input: "11/10/2022 12:00:00 AM" or "11/10/2022"
+ * Output: "2022-11-10"
+ */
+export function normalizeDate(dateStr: string | undefined | null): string | null {
+  if (!dateStr || dateStr.trim() === '') return null;
+
+  // Strip time part if present (e.g., " 12:00:00 AM")
+  const datePart = dateStr.split(' ')[0];
+
+  // Parse M/D/YYYY format
+  const match = datePart.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (!match) return null;
+
+  const [, month, day, year] = match;
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+/**
+ * Build full address from components.
+ */
+export function buildAddress(row: Record<string, string>): string {
+  const parts: string[] = [];
+
+  if (row.SITE_ADDR?.trim()) parts.push(row.SITE_ADDR.trim());
+
+  const cityStateZip: string[] = [];
+  if (row.SITE_CITY?.trim()) cityStateZip.push(row.SITE_CITY.trim());
+  if (row.SITE_STATE?.trim()) cityStateZip.push(row.SITE_STATE.trim());
+  if (row.SITE_ZIP?.trim() && row.SITE_ZIP.trim() !== '0') cityStateZip.push(row.SITE_ZIP.trim());
+
+  if (cityStateZip.length > 0) {
+    parts.push(cityStateZip.join(', '));
+  }
+
+  return parts.join(', ');
+}
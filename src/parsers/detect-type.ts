@@ -0,0 +1,28 @@
+/**
+ * TrakIT export report types handled by this service.
+ */
+export type ReportType = 'cases' | 'violations' | 'inspections' | 'permits';
+
+/**
+ * Name fragments that identify each report type in an email subject or attachment filename.
+ * Checked in order - first match wins.
+ */
+const REPORT_PATTERNS: Array<{ type: ReportType; patterns: string[] }> = [
+  { type: 'inspections', patterns: ['case_inspections', 'case inspections', 'inspections'] },
+  { type: 'violations', patterns: ['violations_and_cases', 'violations and cases', 'violations'] },
+  { type: 'cases', patterns: ['code_enforcement_cases', 'code enforcement cases'] },
+  { type: 'permits', patterns: ['permits'] },
+];
+
+/**
+ * Detect the report type of a single name (subject line or filename).
+ */
+export function detectReportType(name: string): ReportType | null {
+  const lower = name.toLowerCase();
+  for (const { type, patterns } of REPORT_PATTERNS) {
+    if (patterns.some(p => lower.includes(p))) {
+      return type;
+    }
+  }
+  return null;
+}
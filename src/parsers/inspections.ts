@@ -0,0 +1,72 @@
+import { parseTrakitCsv, normalizeDate } from './csv-utils.js';
+import { rowsParsed, rowsSkipped } from '../metrics.js';
+import { isValidCaseNo } from './code-enforcement-cases.js';
+import { buildInspectionExternalId } from '../utils/external-id.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('PARSE');
+
+/**
+ * Parsed inspection record from the TrakIT case inspections CSV.
+ */
+export interface InspectionRecord {
+  uniqueKey: string;        // inspection|{CASE_NO}|{InspectionType}|{SCHEDULED_DATE}
+  caseNo: string;           // CASE_NO (parent code enforcement case)
+  inspectionType: string;   // InspectionType (e.g., FOLLOW UP INSPECTION)
+  result: string;           // RESULT (e.g., PASSED, FAILED, or empty when not yet completed)
+  scheduledDate: string | null; // SCHEDULED_DATE (normalized to YYYY-MM-DD)
+  completedDate: string | null; // COMPLETED_DATE (normalized to YYYY-MM-DD)
+  inspector: string;        // INSPECTOR
+  rawData: Record<string, string>; // Original CSV row data
+}
+
+/**
+ * Parse TrakIT case inspections CSV content.
+ *
+ * Expected columns:
+ * - CASE_NO: Parent case number (e.g., CE22-1639)
+ * - InspectionType: Type of inspection
+ * - RESULT: Inspection result
+ * - SCHEDULED_DATE: Date the inspection was scheduled for
+ * - COMPLETED_DATE: Date the inspection was completed
+ * - INSPECTOR: Inspector name
+ */
+export async function parseInspectionsCsv(csvContent: string): Promise<InspectionRecord[]> {
+  const rows = parseTrakitCsv(csvContent);
+
+  const records: InspectionRecord[] = [];
+  let skipped = 0;
+
+  for (const row of rows) {
+    const caseNo = row.CASE_NO?.trim() || '';
+    const inspectionType = row.InspectionType?.trim() || '';
+
+    if (!isValidCaseNo(caseNo) || !inspectionType) {
+      log.info(`Skipping invalid inspection row: case="${caseNo}" type="${inspectionType}"`);
+      skipped++;
+      continue;
+    }
+
+    const scheduledDate = normalizeDate(row.SCHEDULED_DATE);
+
+    records.push({
+      uniqueKey: buildInspectionExternalId(caseNo, inspectionType, scheduledDate),
+      caseNo,
+      inspectionType: inspectionType.toUpperCase(),
+      result: row.RESULT?.trim().toUpperCase() || '',
+      scheduledDate,
+      completedDate: normalizeDate(row.COMPLETED_DATE),
+      inspector: row.INSPECTOR?.trim() || '',
+      rawData: row,
+    });
+  }
+
+  if (skipped > 0) {
+    log.info(`Skipped ${skipped} invalid inspection records`);
+  }
+
+  rowsParsed.inc({ report: 'inspections' }, records.length);
+  rowsSkipped.inc({ report: 'inspections', reason: 'invalid_row' }, skipped);
+
+  return records;
+}
@@ -0,0 +1,126 @@
+import crypto from 'crypto';
+import { parseTrakitCsv, normalizeDate, buildAddress } from './csv-utils.js';
+import { rowsParsed, rowsSkipped } from '../metrics.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('PARSE');
+
+/**
+ * Parsed permit record from the TrakIT permits CSV.
+ */
+export interface PermitRecord {
+  permitNo: string;         // PERMIT_NO (e.g., B24-0123)
+  status: string;           // STATUS (e.g., ISSUED, FINALED)
+  permitType: string;       // PermitType (e.g., BUILDING)
+  permitSubType: string;    // PermitSubType (e.g., RESIDENTIAL ADDITION)
+  appliedAt: string | null; // APPLIED date (normalized to YYYY-MM-DD)
+  approvedAt: string | null; // APPROVED date (normalized to YYYY-MM-DD)
+  issuedAt: string | null;  // ISSUED date (normalized to YYYY-MM-DD)
+  finaledAt: string | null; // FINALED date (normalized to YYYY-MM-DD)
+  expiredAt: string | null; // EXPIRED date (normalized to YYYY-MM-DD)
+  siteAddress: string;      // Full address from SITE_ADDR, SITE_CITY, SITE_STATE, SITE_ZIP
+  description: string;      // DESCRIPTION
+  notes: string;            // NOTES
+  jobValue: number | null;  // JOBVALUE (dollars)
+  apn: string;              // SITE_APN (assessor parcel number)
+  rawData: Record<string, string>; // Original CSV row data
+}
+
+/**
+ * Validate permit number format.
+ * Expected: ^[A-Z]{1,4}\d{2}-\d+$ (e.g., B24-0123, ENC23-0045)
+ */
+export function isValidPermitNo(permitNo: string): boolean {
+  return /^[A-Z]{1,4}\d{2}-\d+$/.test(permitNo);
+}
+
+/**
+ * Parse a TrakIT currency value ("$12,500.00") into a number.
+ */
+function parseJobValue(value: string | undefined): number | null {
+  if (!value || value.trim() === '') return null;
+  const parsed = Number(value.replace(/[$,\s]/g, ''));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Generate a content hash for change detection.
+ * Includes every field pushed to Threefold.
+ */
+export function generatePermitHash(record: PermitRecord): string {
+  const content = [
+    record.permitNo,
+    record.status,
+    record.permitType,
+    record.permitSubType,
+    record.appliedAt ?? '',
+    record.approvedAt ?? '',
+    record.issuedAt ?? '',
+    record.finaledAt ?? '',
+    record.expiredAt ?? '',
+    record.siteAddress,
+    record.description,
+    record.jobValue ?? '',
+    record.apn,
+  ].join('|');
+
+  return crypto.createHash('sha256').update(content).digest('hex').substring(0, 16);
+}
+
+/**
+ * Parse TrakIT permits CSV content.
+ *
+ * Expected columns:
+ * - PERMIT_NO: Permit number
+ * - STATUS: Permit status
+ * - PermitType / PermitSubType: Permit classification
+ * - APPLIED / APPROVED / ISSUED / FINALED / EXPIRED: Milestone dates
+ * - SITE_ADDR / SITE_CITY / SITE_STATE / SITE_ZIP: Site address
+ * - SITE_APN: Assessor parcel number
+ * - DESCRIPTION: Work description
+ * - NOTES: Permit notes
+ * - JOBVALUE: Declared job valuation
+ */
+export async function parsePermitsCsv(csvContent: string): Promise<PermitRecord[]> {
+  const rows = parseTrakitCsv(csvContent);
+
+  const records: PermitRecord[] = [];
+  let skipped = 0;
+
+  for (const row of rows) {
+    const permitNo = row.PERMIT_NO?.trim() || '';
+
+    if (!isValidPermitNo(permitNo)) {
+      log.info(`Skipping invalid permit number: "${permitNo}"`);
+      skipped++;
+      continue;
+    }
+
+    records.push({
+      permitNo,
+      status: row.STATUS?.trim().toUpperCase() || 'UNKNOWN',
+      permitType: row.PermitType?.trim() || '',
+      permitSubType: row.PermitSubType?.trim() || '',
+      appliedAt: normalizeDate(row.APPLIED),
+      approvedAt: normalizeDate(row.APPROVED),
+      issuedAt: normalizeDate(row.ISSUED),
+      finaledAt: normalizeDate(row.FINALED),
+      expiredAt: normalizeDate(row.EXPIRED),
+      siteAddress: buildAddress(row),
+      description: row.DESCRIPTION?.trim() || '',
+      notes: row.NOTES?.trim() || '',
+      jobValue: parseJobValue(row.JOBVALUE),
+      apn: row.SITE_APN?.trim() || '',
+      rawData: row,
+    });
+  }
+
+  if (skipped > 0) {
+    log.info(`Skipped ${skipped} records with invalid permit numbers`);
+  }
+
+  rowsParsed.inc({ report: 'permits' }, records.length);
+  rowsSkipped.inc({ report: 'permits', reason: 'invalid_permit_no' }, skipped);
+
+  return records;
+}
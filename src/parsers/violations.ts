@@ -0,0 +1,85 @@
+import { parseTrakitCsv, normalizeDate, buildAddress } from './csv-utils.js';
+import { rowsParsed, rowsSkipped } from '../metrics.js';
+import { isValidCaseNo } from './code-enforcement-cases.js';
+import { buildViolationExternalId } from '../utils/external-id.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('PARSE');
+
+/**
+ * Parsed violation record from the TrakIT violations CSV.
+ */
+export interface ViolationRecord {
+  externalId: string;       // violation|{CASE_NO}|activity:{ActivityID} (or |{Violation_Type}|{DATE_OBSERVED} without one)
+  activityId: string;       // ActivityID
+  caseNo: string;           // CASE_NO (parent code enforcement case)
+  violationType: string;    // Violation_Type (e.g., STAGNANT WATER)
+  violationStatus: string;  // Violation_Status (e.g., OPEN, COMPLIED, UNFOUNDED)
+  dateObserved: string | null; // DATE_OBSERVED (normalized to YYYY-MM-DD)
+  siteAddress: string;      // Full address from SITE_ADDR, SITE_CITY, SITE_STATE, SITE_ZIP
+  rawData: Record<string, string>; // Original CSV row data
+}
+
+/**
+ * Violation statuses that mean the violation is resolved.
+ */
+const RESOLVED_VIOLATION_STATUSES = new Set(['COMPLIED', 'UNFOUNDED', 'CLOSED', 'VOID']);
+
+/**
+ * Whether a violation status counts as resolved (no further action needed).
+ */
+export function isResolvedViolationStatus(status: string): boolean {
+  return RESOLVED_VIOLATION_STATUSES.has(status.trim().toUpperCase());
+}
+
+/**
+ * Parse TrakIT violations CSV content.
+ *
+ * Expected columns:
+ * - ActivityID: TrakIT activity ID of the violation
+ * - CASE_NO: Parent case number (e.g., CC24-1354)
+ * - Violation_Type: Type of violation
+ * - Violation_Status: Current violation status
+ * - DATE_OBSERVED: Date the violation was observed
+ * - SITE_ADDR / SITE_CITY / SITE_STATE / SITE_ZIP: Site address
+ */
+export async function parseViolationsCsv(csvContent: string): Promise<ViolationRecord[]> {
+  const rows = parseTrakitCsv(csvContent);
+
+  const records: ViolationRecord[] = [];
+  let skipped = 0;
+
+  for (const row of rows) {
+    const caseNo = row.CASE_NO?.trim() || '';
+    const violationType = row.Violation_Type?.trim() || '';
+
+    if (!isValidCaseNo(caseNo) || !violationType) {
+      log.info(`Skipping invalid violation row: case="${caseNo}" type="${violationType}"`);
+      skipped++;
+      continue;
+    }
+
+    const dateObserved = normalizeDate(row.DATE_OBSERVED);
+    const activityId = row.ActivityID?.trim() || '';
+
+    records.push({
+      externalId: buildViolationExternalId(caseNo, violationType, dateObserved, activityId),
+      activityId,
+      caseNo,
+      violationType: violationType.toUpperCase(),
+      violationStatus: row.Violation_Status?.trim().toUpperCase() || 'UNKNOWN',
+      dateObserved,
+      siteAddress: buildAddress(row),
+      rawData: row,
+    });
+  }
+
+  if (skipped > 0) {
+    log.info(`Skipped ${skipped} invalid violation records`);
+  }
+
+  rowsParsed.inc({ report: 'violations' }, records.length);
+  rowsSkipped.inc({ report: 'violations', reason: 'invalid_row' }, skipped);
+
+  return records;
+}
@@ -0,0 +1,36 @@
+import type { Request, Response, NextFunction } from 'express';
+import { config } from '../config.js';
+import { safeEqual } from './webhook-auth.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('ADMIN');
+
+/**
+ * Whether admin API authentication is configured.
+ */
+export function isAdminAuthConfigured(): boolean {
+  return Boolean(config.adminApiToken);
+}
+
+/**
+ * Require "Authorization: Bearer <ADMIN_API_TOKEN>" on admin routes.
+ * While ADMIN_API_TOKEN is unset, every admin route is refused with 503 - reads expose case data
+ * (raw CSV rows, plan downloads, the outbox and review queue) on a publicly reachable service.
+ */
+export function requireAdminAuth(req: Request, res: Response, next: NextFunction): void {
+  if (!isAdminAuthConfigured()) {
+    log.warn(`Refused ${req.method} ${req.originalUrl} from ${req.ip}: ADMIN_API_TOKEN is not configured`);
+    res.status(503).json({ error: 'The admin API is disabled until ADMIN_API_TOKEN is configured' });
+    return;
+  }
+
+  const authorization = req.headers.authorization ?? '';
+  const token = authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : '';
+  if (token && safeEqual(token, config.adminApiToken)) {
+    next();
+    return;
+  }
+
+  log.warn(`Rejected ${req.method} ${req.originalUrl} from ${req.ip}: ${token ? 'invalid token' : 'missing credentials'}`);
+  res.status(401).json({ error: 'Unauthorized' });
+}
@@ -0,0 +1,797 @@
+import { Router } from 'express';
+import multer from 'multer';
+import { config } from '../config.js';
+import { detectReportType } from '../parsers/detect-type.js';
+import { parseCodeEnforcementCasesCsv } from '../parsers/code-enforcement-cases.js';
+import { processCasesSync } from '../sync/cases-sync.js';
+import { notifyJobWorker } from '../sync/job-worker.js';
+import { clearCaseCache, listSyncLogs, getSyncLog } from '../state/tracker.js';
+import { listCases, getCase, CaseListFilters } from '../state/cases.js';
+import { resyncCases, MAX_RESYNC_CASES, CaseResyncSelection } from '../sync/case-resync.js';
+import {
+  listReviewQueue,
+  getReviewQueueItem,
+  dismissReviewQueueItem,
+  ReviewStatus,
+} from '../state/review-queue.js';
+import { createSyncJob, getSyncJob, listSyncJobs, SyncJobStatus } from '../state/jobs.js';
+import { listOutboxItems, requeueDeadOutboxItems, OutboxStatus } from '../state/outbox.js';
+import { getTicketById } from '../sync/threefold.js';
+import { drainOutbox } from '../sync/outbox-worker.js';
+import { getCaseHistory } from '../state/case-history.js';
+import { resolveCaseReview } from '../sync/review-resolution.js';
+import {
+  listCasePlans,
+  getCasePlan,
+  countCasePlanItems,
+  getCasePlanItems,
+  approveCasePlan,
+  rejectCasePlan,
+  CasePlanStatus,
+} from '../state/case-plans.js';
+import { startCasePlanApply, isCasePlanApplying, formatCasePlanCsv } from '../sync/case-plans.js';
+import { listFeedAlerts } from '../state/feed-alerts.js';
+import { checkFeedHealth } from '../sync/feed-watchdog.js';
+import { sendAlert, getAlertSink } from '../alerts.js';
+import { createLogger } from '../logger.js';
+
+export const adminRouter = Router();
+
+const log = createLogger('ADMIN');
+const parseLog = createLogger('PARSE');
+
+const REVIEW_STATUSES: ReviewStatus[] = ['pending', 'resolved', 'dismissed'];
+
+/**
+ * Parse an optional non-negative integer query parameter.
+ */
+function parseIntParam(value: unknown): number | undefined {
+  if (typeof value !== 'string' || value === '') return undefined;
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) || parsed < 0 ? undefined : parsed;
+}
+
+/**
+ * Parse an optional true/false parameter (null if present but not a boolean).
+ */
+function parseBoolParam(value: unknown): boolean | undefined | null {
+  if (value === undefined || value === '') return undefined;
+  if (value === true || value === 'true') return true;
+  if (value === false || value === 'false') return false;
+  return null;
+}
+
+/**
+ * Parse an optional date/datetime parameter as an ISO string (null if unparseable).
+ */
+function parseDateParam(value: unknown): string | undefined | null {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string') return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * POST /admin/clear-cache
+ *
+ * Clear all cached case state and sync logs to force a full re-sync.
+ */
+adminRouter.post('/clear-cache', async (_req, res) => {
+  try {
+    const result = await clearCaseCache();
+    log.info('Cache cleared', { ...result });
+    res.json({ success: true, ...result });
+  } catch (err) {
+    log.error('Failed to clear cache', { err });
+    res.status(500).json({ error: String(err) });
+  }
+});
+
+// ============ Manual Upload ============
+
+// Exports are a few MB at most - anything far bigger is the wrong file
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+}).single('file');
+
+/**
+ * POST /admin/upload
+ * multipart/form-data: file=<CSV>, dryRun=true|false (default false)
+ *
+ * Run a hand-exported Code Enforcement Cases CSV through the same pipeline as the SendGrid
+ * webhook, for when the scheduled TrakIT email fails. The file is parsed up front to reject
+ * the wrong export, then queued as a sync job - responds 202 with the job ID to poll at
+ * GET /admin/jobs/:id. With dryRun=true, responds straight away with the cases that changed
+ * since the last import (read-only - nothing is sent, saved or queued).
+ * Requires ADMIN_API_TOKEN to be configured.
+ */
+adminRouter.post('/upload', (req, res) => {
+  upload(req, res, async (uploadErr: unknown) => {
+    if (uploadErr) {
+      res.status(400).json({ error: uploadErr instanceof Error ? uploadErr.message : String(uploadErr) });
+      return;
+    }
+
+    const file = req.file;
+    if (!file) {
+      res.status(400).json({ error: 'file is required' });
+      return;
+    }
+    if (!file.originalname.toLowerCase().endsWith('.csv')) {
+      res.status(400).json({ error: 'file must be a .csv export' });
+      return;
+    }
+
+    const dryRun = parseBoolParam(req.body?.dryRun);
+    if (dryRun === null) {
+      res.status(400).json({ error: 'dryRun must be true or false' });
+      return;
+    }
+
+    // Only cases exports for now - fall back to cases when the filename doesn't say
+    const reportType = detectReportType(file.originalname) ?? 'cases';
+    if (reportType !== 'cases') {
+      res.status(400).json({ error: `${reportType} uploads are not supported yet - only Code Enforcement Cases` });
+      return;
+    }
+
+    log.info(`Upload from ${req.ip}: ${file.originalname} (${(file.size / 1024).toFixed(1)} KB)${dryRun ? ' - dry run' : ''}`);
+
+    try {
+      const cases = await parseCodeEnforcementCasesCsv(file.buffer.toString('utf-8'));
+      parseLog.info(`Parsed ${cases.length} case records`);
+      if (cases.length === 0) {
+        res.status(400).json({ error: 'No case records found - is this a Code Enforcement Cases export?' });
+        return;
+      }
+
+      if (dryRun) {
+        const summary = await processCasesSync(cases, { sourceFile: file.originalname, dryRun: true });
+        res.json({ success: true, filename: file.originalname, ...summary });
+        return;
+      }
+
+      // Sync runs in the background, like webhook emails
+      const { id: jobId } = await createSyncJob({
+        reportType,
+        filename: file.originalname,
+        source: 'upload',
+        content: file.buffer.toString('utf-8'),
+      });
+      notifyJobWorker();
+      log.info('Queued upload', { jobId });
+      res.status(202).json({ success: true, filename: file.originalname, jobId });
+    } catch (err) {
+      log.error('Failed to process upload', { err });
+      res.status(500).json({ error: String(err) });
+    }
+  });
+});
+
+// ============ Review Queue ============
+
+/**
+ * GET /admin/review-queue?status=pending&limit=50&offset=0
+ *
+ * List review queue items (pending by default).
+ */
+adminRouter.get('/review-queue', async (req, res) => {
+  const status = (req.query.status as ReviewStatus | undefined) ?? 'pending';
+  if (!REVIEW_STATUSES.includes(status)) {
+    res.status(400).json({ error: `status must be one of: ${REVIEW_STATUSES.join(', ')}` });
+    return;
+  }
+
+  try {
+    const result = await listReviewQueue({
+      status,
+      limit: parseIntParam(req.query.limit),
+      offset: parseIntParam(req.query.offset),
+    });
+    res.json({ success: true, ...result });
+  } catch (err) {
+    log.error('Failed to list review queue', { err });
+    res.status(500).json({ error: String(err) });
+  }
+});
+
+/**
+ * GET /admin/review-queue/:id
+ *
+ * Get a single review queue item with its case data and candidate tickets.
+ */
+adminRouter.get('/review-queue/:id', async (req, res) => {
+  try {
+    const item = await getReviewQueueItem(parseInt(req.params.id, 10));
+    if (!item) {
+      res.status(404).json({ error: 'Review item not found' });
+      return;
+    }
+    res.json({ success: true, item });
+  } catch (err) {
+    log.error('Failed to get review item', { err });
+    res.status(500).json({ error: String(err) });
+  }
+});
+
+/**
+ * POST /admin/review-queue/:id/resolve
+ * Body: { "ticketId": 12345, "resolvedBy": "jane@corona.gov" }
+ *
+ * Link the case to the chosen ticket and run the normal custom field update.
+ */
+adminRouter.post('/review-queue/:id/resolve', async (req, res) => {
+  const ticketId = Number(req.body?.ticketId);
+  const resolvedBy = typeof req.body?.resolvedBy === 'string' && req.body.resolvedBy ? req.body.resolvedBy : 'admin';
+
+  if (!Number.isInteger(ticketId) || ticketId <= 0) {
+    res.status(400).json({ error: 'ticketId is required' });
+    return;
+  }
+
+  if (!config.caseUpdatesEnabled) {
+    res.status(409).json({ error: 'Case updates are disabled (dry run mode)' });
+    return;
+  }
+
+  try {
+    const item = await getReviewQueueItem(parseInt(req.params.id, 10));
+    if (!item) {
+      res.status(404).json({ error: 'Review item not found' });
+      return;
+    }
+    if (item.status !== 'pending') {
+      res.status(409).json({ error: `Review item is already ${item.status}` });
+      return;
+    }
+
+    const ticket = await getTicketById(ticketId);
+    if (!ticket) {
+      res.status(404).json({ error: `Ticket #${ticketId} not found` });
+      return;
+    }
+
+    const result = await resolveCaseReview(item, ticket, resolvedBy);
+    res.json({ success: true, caseNo: item.caseNo, ticketId, result });
+  } catch (err) {
+    log.error('Failed to resolve review item', { err });
+    res.status(500).json({ error: String(err) });
+  }
+});
+
+/**
+ * POST /admin/review-queue/:id/dismiss
+ * Body: { "resolvedBy": "jane@corona.gov" }
+ *
+ * Dismiss a pending item without linking a ticket.
+ */
+adminRouter.post('/review-queue/:id/dismiss', async (req, res) => {
+  const resolvedBy = typeof req.body?.resolvedBy === 'string' && req.body.resolvedBy ? req.body.resolvedBy : 'admin';
+
+  try {
+    const dismissed = await dismissReviewQueueItem(parseInt(req.params.id, 10), resolvedBy);
+    if (!dismissed) {
+      res.status(404).json({ error: 'No pending review item with that ID' });
+      return;
+    }
+    log.info(`Review item #${req.params.id} dismissed by ${resolvedBy}`);
+    res.json({ success: true });
+  } catch (err) {
+    log.error('Failed to dismiss review item', { err });
+    res.status(500).json({ error: String(err) });
+  }
+});
+
+// ============ Sync Jobs ============
+
+const JOB_STATUSES: SyncJobStatus[] = ['queued', 'running', 'succeeded', 'failed'];
+
+/**
+ * GET /admin/jobs?status=failed&limit=50
+ *
+ * List recent sync jobs, newest first.
+ */
+adminRouter.get('/jobs', async (req, res) => {
+  const status = req.query.status as SyncJobStatus | undefined;
+  if (status && !JOB_STATUSES.includes(status)) {
+    res.status(400).json({ error: `status must be one of: ${JOB_STATUSES.join(', ')}` });
+    return;
+  }
+
+  try {
+    const jobs = await listSyncJobs({ status, limit: parseIntParam(req.query.limit) });
+    res.json({ success: true, jobs });
+  } catch (err) {
+    log.error('Failed to list jobs', { err });
+    res.status(500).json({ error: String(err) });
+  }
+});
+
+/**
+ * GET /admin/jobs/:id
+ *
+ * Get the status of a sync job (as returned by the webhook in jobIds).
+ */
+adminRouter.get('/jobs/:id', async (req, res) => {
+  try {
+    const job = await getSyncJob(parseInt(req.params.id, 10));
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+    res.json({ success: true, job });
+  } catch (err) {
+    log.error('Failed to get job', { err });
+    res.status(500).json({ error: String(err) });
+  }
+});
+
+// ============ Dry-Run Plans ============
+
+const PLAN_STATUSES: CasePlanStatus[] = ['pending', 'approved', 'applying', 'applied', 'rejected'];
+
+/**
+ * GET /admin/plans?status=pending&limit=50&offset=0
+ *
+ * List dry-run plans, newest first.
+ */
+adminRouter.get('/plans', async (req, res) => {
+  const status = req.query.status as CasePlanStatus | undefined;
+  if (status && !PLAN_STATUSES.includes(status)) {
+    res.status(400).json({ error: `status must be one of: ${PLAN_STATUSES.join(', ')}` });
+    return;
+  }
+
+  try {
+    const result = await listCasePlans({
+      status,
+      limit: parseIntParam(req.query.limit),
+      offset: parseIntParam(req.query.offset),
+    });
+    res.json({ success: true, ...result });
+  } catch (err) {
+    log.error('Failed to list plans', { err });
+    res.status(500).json({ error: String(err) });
+  }
+});
+
+/**
+ * GET /admin/plans/:id
+ *
+ * Get a plan with its item counts by action and by apply status.
+ */
+adminRouter.get('/plans/:id', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    const plan = await getCasePlan(id);
+    if (!plan) {
+      res.status(404).json({ error: 'Plan not found' });
+      return;
+    }
+    const counts = await countCasePlanItems(id);
+    res.json({ success: true, plan: { ...plan, ...counts, applyRunning: isCasePlanApplying(id) } });
+  } catch (err) {
+    log.error('Failed to get plan', { err });
+    res.status(500).json({ error: String(err) });
+  }
+});
+
+/**
+ * GET /admin/plans/:id/download?format=csv|json
+ *
+ * Download a plan's items - case, ticket and field-by-field before/after (CSV by default).
+ */
+adminRouter.get('/plans/:id/download', async (req, res) => {
+  const format = (req.query.format as string | undefined) ?? 'csv';
+  if (format !== 'csv' && format !== 'json') {
+    res.status(400).json({ error: 'format must be csv or json' });
+    return;
+  }
+
+  try {
+    const id = parseInt(req.params.id, 10);
+    const plan = await getCasePlan(id);
+    if (!plan) {
+      res.status(404).json({ error: 'Plan not found' });
+      return;
+    }
+    const items = await getCasePlanItems(id);
+
+    res.attachment(`case-sync-plan-${id}.${format}`);
+    if (format === 'csv') {
+      res.type('text/csv').send(formatCasePlanCsv(items));
+    } else {
+      res.json({ plan, items });
+    }
+  } catch (err) {
+    log.error('Failed to download plan', { err });
+    res.status(500).json({ error: String(err) });
+  }
+});
+
+/**
+ * POST /admin/plans/:id/approve
+ * Body: { "approvedBy": "jane@corona.gov" }
+ *
+ * Sign off a pending plan so it can be applied.
+ */
+adminRouter.post('/plans/:id/approve', async (req, res) => {
+  const approvedBy = typeof req.body?.approvedBy === 'string' ? req.body.approvedBy.trim() : '';
+  if (!approvedBy) {
+    res.status(400).json({ error: 'approvedBy is required' });
+    return;
+  }
+
+  try {
+    const approved = await approveCasePlan(parseInt(req.params.id, 10), approvedBy);
+    if (!approved) {
+      res.status(404).json({ error: 'Pending plan not found' });
+      return;
+    }
+    log.info(`Plan #${req.params.id} approved by ${approvedBy}`);
+    res.json({ success: true });
+  } catch (err) {
+    log.error('Failed to approve plan', { err });
+    res.status(500).json({ error: String(err) });
+  }
+});
+
+/**
+ * POST /admin/plans/:id/reject
+ * Body: { "rejectedBy": "jane@corona.gov" }
+ *
+ * Reject a plan that has not been applied.
+ */
+adminRouter.post('/plans/:id/reject', async (req, res) => {
+  const rejectedBy = typeof req.body?.rejectedBy === 'string' && req.body.rejectedBy ? req.body.rejectedBy : 'admin';
+
+  try {
+    const rejected = await rejectCasePlan(parseInt(req.params.id, 10), rejectedBy);
+    if (!rejected) {
+      res.status(404).json({ error: 'Pending or approved plan not found' });
+      return;
+    }
+    res.json({ success: true });
+  } catch (err) {
+    log.error('Failed to reject plan', { err });
+    res.status(500).json({ error: String(err) });
+  }
+});
+
+/**
+ * POST /admin/plans/:id/apply
+ *
+ * Apply an approved plan exactly as planned, in the background (poll GET /admin/plans/:id).
+ * Planned updates are skipped for tickets whose fields changed since the plan was made.
+ * Works regardless of CASE_UPDATES_ENABLED - approving the plan is the sign-off.
+ */
+adminRouter.post('/plans/:id/apply', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    const started = await startCasePlanApply(id);
+    if (!started) {
+      res.status(409).json({ error: 'Plan is not approved, or is already being applied' });
+      return;
+    }
+    res.status(202).json({ success: true, planId: id, status: 'applying' });
+  } catch (err) {
+    log.error('Failed to apply plan', { err });
+    res.status(500).json({ error: String(err) });
+  }
+});
+
+// ============ Sync Runs ============
+
+/**
+ * GET /admin/sync-runs?type=cases&limit=50&offset=0
+ *
+ * List sync runs (sync_log), newest first, with durations and record counts.
+ */
+adminRouter.get('/sync-runs', async (req, res) => {
+  try {
+    const result = await listSyncLogs({
+      syncType: typeof req.query.type === 'string' && req.query.type ? req.query.type : undefined,
+      limit: parseIntParam(req.query.limit),
+      offset: parseIntParam(req.query.offset),
+    });
+    res.json({ success: true, ...result });
+  } catch (err) {
+    log.error('Failed to list sync runs', { err });
+    res.status(500).json({ error: String(err) });
+  }
+});
+
+/**
+ * GET /admin/sync-runs/:id
+ *
+ * Get a single sync run.
+ */
+adminRouter.get('/sync-runs/:id', async (req, res) => {
+  try {
+    const run = await getSyncLog(parseInt(req.params.id, 10));
+    if (!run) {
+      res.status(404).json({ error: 'Sync run not found' });
+      return;
+    }
+    res.json({ success: true, run });
+  } catch (err) {
+    log.error('Failed to get sync run', { err });
+    res.status(500).json({ error: String(err) });
+  }
+});
+
+// ============ Feed Alerts ============
+
+const ALERT_STATUSES = ['open', 'resolved'] as const;
+
+/**
+ * GET /admin/alerts?status=open&limit=50&offset=0
+ *
+ * List feed watchdog alerts (stale feed, row drop), newest first.
+ */
+adminRouter.get('/alerts', async (req, res) => {
+  const status = req.query.status as (typeof ALERT_STATUSES)[number] | undefined;
+  if (status && !ALERT_STATUSES.includes(status)) {
+    res.status(400).json({ error: `status must be one of: ${ALERT_STATUSES.join(', ')}` });
+    return;
+  }
+
+  try {
+    const result = await listFeedAlerts({
+      status,
+      limit: parseIntParam(req.query.limit),
+      offset: parseIntParam(req.query.offset),
+    });
+    res.json({ success: true, ...result });
+  } catch (err) {
+    log.error('Failed to list alerts', { err });
+    res.status(500).json({ error: String(err) });
+  }
+});
+
+/**
+ * POST /admin/alerts/check
+ *
+ * Run the feed watchdog now instead of waiting for the next interval.
+ */
+adminRouter.post('/alerts/check', async (_req, res) => {
+  try {
+    const result = await checkFeedHealth();
+    res.json({ success: true, ...result });
+  } catch (err) {
+    log.error('Failed to check feed', { err });
+    res.status(500).json({ error: String(err) });
+  }
+});
+
+/**
+ * POST /admin/alerts/test
+ *
+ * Send a test message through the alert sink (ALERT_WEBHOOK_URL, or the log when unset).
+ */
+adminRouter.post('/alerts/test', async (_req, res) => {
+  try {
+    await sendAlert(':information_source: Test alert from corona-case-upsert - alert delivery is working.');
+    res.json({ success: true, sink: getAlertSink() });
+  } catch (err) {
+    log.error('Failed to send test alert', { err });
+    res.status(502).json({ error: String(err) });
+  }
+});
+
+// ============ Ticket Update Outbox ============
+
+const OUTBOX_STATUSES: OutboxStatus[] = ['pending', 'succeeded', 'dead', 'superseded'];
+
+/**
+ * GET /admin/outbox?status=dead&limit=50&offset=0
+ *
+ * List outbox items (dead-lettered by default).
+ */
+adminRouter.get('/outbox', async (req, res) => {
+  const status = (req.query.status as OutboxStatus | undefined) ?? 'dead';
+  if (!OUTBOX_STATUSES.includes(status)) {
+    res.status(400).json({ error: `status must be one of: ${OUTBOX_STATUSES.join(', ')}` });
+    return;
+  }
+
+  try {
+    const result = await listOutboxItems({
+      status,
+      limit: parseIntParam(req.query.limit),
+      offset: parseIntParam(req.query.offset),
+    });
+    res.json({ success: true, ...result });
+  } catch (err) {
+    log.error('Failed to list outbox', { err });
+    res.status(500).json({ error: String(err) });
+  }
+});
+
+/**
+ * POST /admin/outbox/retry-dead
+ *
+ * Re-drive every dead-lettered item, then drain the outbox immediately.
+ */
+adminRouter.post('/outbox/retry-dead', async (_req, res) => {
+  try {
+    const requeued = await requeueDeadOutboxItems();
+    log.info(`Re-queued ${requeued} dead outbox item(s)`);
+    const result = await drainOutbox();
+    res.json({ success: true, requeued, ...result });
+  } catch (err) {
+    log.error('Failed to re-drive outbox', { err });
+    res.status(500).json({ error: String(err) });
+  }
+});
+
+/**
+ * POST /admin/outbox/:id/retry
+ *
+ * Re-drive a single dead-lettered item, then drain the outbox immediately.
+ */
+adminRouter.post('/outbox/:id/retry', async (req, res) => {
+  try {
+    const requeued = await requeueDeadOutboxItems(parseInt(req.params.id, 10));
+    if (requeued === 0) {
+      res.status(404).json({ error: 'No dead outbox item with that ID' });
+      return;
+    }
+    log.info(`Re-queued dead outbox item #${req.params.id}`);
+    const result = await drainOutbox();
+    res.json({ success: true, requeued, ...result });
+  } catch (err) {
+    log.error('Failed to re-drive outbox item', { err });
+    res.status(500).json({ error: String(err) });
+  }
+});
+
+// ============ Cases ============
+
+const CASE_STATUSES = ['open', 'closed'] as const;
+
+/**
+ * Parse case list filters (query string or JSON body).
+ *
+ * @returns The filters, or an error message for a 400
+ */
+function parseCaseFilters(input: Record<string, unknown>): CaseListFilters | string {
+  const status = input.status as (typeof CASE_STATUSES)[number] | undefined;
+  if (status && !CASE_STATUSES.includes(status)) {
+    return `status must be one of: ${CASE_STATUSES.join(', ')}`;
+  }
+
+  const linked = parseBoolParam(input.linked);
+  const missing = parseBoolParam(input.missing);
+  if (linked === null || missing === null) {
+    return 'linked and missing must be true or false';
+  }
+
+  const lastSeenAfter = parseDateParam(input.lastSeenAfter);
+  const lastSeenBefore = parseDateParam(input.lastSeenBefore);
+  if (lastSeenAfter === null || lastSeenBefore === null) {
+    return 'lastSeenAfter and lastSeenBefore must be dates';
+  }
+
+  return {
+    status,
+    type: typeof input.type === 'string' && input.type ? input.type : undefined,
+    subtype: typeof input.subtype === 'string' && input.subtype ? input.subtype : undefined,
+    linked,
+    missing,
+    lastSeenAfter,
+    lastSeenBefore,
+  };
+}
+
+/**
+ * GET /admin/cases?status=open&type=CODE&subtype=GRAFFITI&linked=false&missing=false
+ *                  &lastSeenAfter=2026-01-01&lastSeenBefore=2026-02-01&limit=50&offset=0
+ *
+ * List stored cases, most recently seen first. All filters are optional.
+ */
+adminRouter.get('/cases', async (req, res) => {
+  const filters = parseCaseFilters(req.query);
+  if (typeof filters === 'string') {
+    res.status(400).json({ error: filters });
+    return;
+  }
+
+  try {
+    const result = await listCases({
+      ...filters,
+      limit: parseIntParam(req.query.limit),
+      offset: parseIntParam(req.query.offset),
+    });
+    res.json({ success: true, ...result });
+  } catch (err) {
+    log.error('Failed to list cases', { err });
+    res.status(500).json({ error: String(err) });
+  }
+});
+
+/**
+ * GET /admin/cases/:caseNo
+ *
+ * Get a single stored case with its raw CSV row and cached Threefold ticket ID.
+ */
+adminRouter.get('/cases/:caseNo', async (req, res) => {
+  try {
+    const item = await getCase(req.params.caseNo);
+    if (!item) {
+      res.status(404).json({ error: 'Case not found' });
+      return;
+    }
+    res.json({ success: true, case: item });
+  } catch (err) {
+    log.error('Failed to get case', { err });
+    res.status(500).json({ error: String(err) });
+  }
+});
+
+/**
+ * POST /admin/cases/resync
+ * Body: { "caseNos": ["CE22-1639", "CC25-0774"] }
+ *   or: { "filter": { "status": "open", "linked": false } }
+ *
+ * Force a re-sync of the selected cases, ignoring the content hash - runs the normal ticket
+ * lookup + diff + update for each and returns per-case outcomes. At most 100 cases per request;
+ * `matched` says how many the selection covered.
+ */
+adminRouter.post('/cases/resync', async (req, res) => {
+  let selection: CaseResyncSelection;
+
+  if (Array.isArray(req.body?.caseNos)) {
+    const caseNos: unknown[] = req.body.caseNos;
+    if (caseNos.length === 0 || !caseNos.every(c => typeof c === 'string' && c.trim() !== '')) {
+      res.status(400).json({ error: 'caseNos must be a non-empty array of case numbers' });
+      return;
+    }
+    if (caseNos.length > MAX_RESYNC_CASES) {
+      res.status(400).json({ error: `At most ${MAX_RESYNC_CASES} cases can be re-synced per request` });
+      return;
+    }
+    selection = { caseNos: (caseNos as string[]).map(c => c.trim().toUpperCase()) };
+  } else if (req.body?.filter && typeof req.body.filter === 'object') {
+    const filters = parseCaseFilters(req.body.filter);
+    if (typeof filters === 'string') {
+      res.status(400).json({ error: filters });
+      return;
+    }
+    selection = { filter: filters };
+  } else {
+    res.status(400).json({ error: 'caseNos or filter is required' });
+    return;
+  }
+
+  if (!config.caseUpdatesEnabled) {
+    res.status(409).json({ error: 'Case updates are disabled (dry run mode)' });
+    return;
+  }
+
+  try {
+    const result = await resyncCases(selection);
+    res.json({ success: true, ...result });
+  } catch (err) {
+    log.error('Failed to re-sync cases', { err });
+    res.status(500).json({ error: String(err) });
+  }
+});
+
+/**
+ * GET /admin/cases/:caseNo/history
+ *
+ * Timeline of detected changes for a case (oldest first), with the Threefold action taken for each.
+ */
+adminRouter.get('/cases/:caseNo/history', async (req, res) => {
+  try {
+    const history = await getCaseHistory(req.params.caseNo);
+    res.json({ success: true, caseNo: req.params.caseNo, history });
+  } catch (err) {
+    log.error('Failed to get case history', { err });
+    res.status(500).json({ error: String(err) });
+  }
+});
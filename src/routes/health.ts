@@ -0,0 +1,157 @@
+import { Router } from 'express';
+import { config } from '../config.js';
+import { pool } from '../state/db.js';
+import { getLastSuccessfulSyncs } from '../state/tracker.js';
+import { checkThreefoldAuth } from '../sync/threefold.js';
+import { getCircuitState, ThreefoldAuthError } from '../sync/threefold-client.js';
+import { getCustomFieldDefinitionsLoadedAt } from '../sync/custom-field-definitions.js';
+import { createLogger } from '../logger.js';
+
+export const healthRouter = Router();
+
+const log = createLogger('HEALTH');
+
+type DependencyStatus = 'ok' | 'down';
+
+interface DependencyCheck {
+  status: DependencyStatus;
+  checkedAt: string;
+  latencyMs: number;
+  error?: string;
+}
+
+interface SyncFreshness {
+  lastSuccessAt: string | null;
+  ageSeconds: number | null;
+  stale: boolean;
+}
+
+// Last Threefold check, reused for HEALTH_THREEFOLD_CACHE_SECONDS
+let threefoldCheck: { result: DependencyCheck; expiresAt: number } | null = null;
+let threefoldCheckInFlight: Promise<DependencyCheck> | null = null;
+
+/**
+ * Time a dependency check, turning a thrown error into status 'down'.
+ */
+async function runCheck(name: string, check: () => Promise<void>): Promise<DependencyCheck> {
+  const startTime = Date.now();
+  const checkedAt = new Date().toISOString();
+  try {
+    await check();
+    return { status: 'ok', checkedAt, latencyMs: Date.now() - startTime };
+  } catch (err) {
+    const error = err instanceof ThreefoldAuthError
+      ? `authentication failed (${err.status}) - check THREEFOLD_API_TOKEN`
+      : err instanceof Error ? err.message : String(err);
+    log.warn(`${name} check failed: ${error}`);
+    return { status: 'down', checkedAt, latencyMs: Date.now() - startTime, error };
+  }
+}
+
+/**
+ * Postgres is reachable through the shared pool.
+ */
+function checkDatabase(): Promise<DependencyCheck> {
+  return runCheck('Database', async () => {
+    await pool.query('SELECT 1');
+  });
+}
+
+/**
+ * Threefold is reachable and accepts our token. Cached, and concurrent probes share one request.
+ */
+async function checkThreefold(): Promise<DependencyCheck> {
+  if (threefoldCheck && Date.now() < threefoldCheck.expiresAt) {
+    return threefoldCheck.result;
+  }
+
+  if (!threefoldCheckInFlight) {
+    threefoldCheckInFlight = runCheck('Threefold', checkThreefoldAuth)
+      .then(result => {
+        threefoldCheck = { result, expiresAt: Date.now() + config.healthThreefoldCacheSeconds * 1000 };
+        return result;
+      })
+      .finally(() => {
+        threefoldCheckInFlight = null;
+      });
+  }
+  return threefoldCheckInFlight;
+}
+
+/**
+ * Last successful run of each HEALTH_SYNC_TYPES sync, flagged stale after HEALTH_SYNC_STALE_HOURS.
+ * A type that has never succeeded is stale.
+ */
+async function getSyncFreshness(): Promise<Record<string, SyncFreshness>> {
+  const lastSuccess = await getLastSuccessfulSyncs(config.healthSyncTypes);
+  const staleAfterSeconds = config.healthSyncStaleHours * 3600;
+
+  const freshness: Record<string, SyncFreshness> = {};
+  for (const [syncType, completedAt] of Object.entries(lastSuccess)) {
+    const ageSeconds = completedAt ? Math.round((Date.now() - completedAt.getTime()) / 1000) : null;
+    freshness[syncType] = {
+      lastSuccessAt: completedAt?.toISOString() ?? null,
+      ageSeconds,
+      stale: ageSeconds === null || ageSeconds > staleAfterSeconds,
+    };
+  }
+  return freshness;
+}
+
+/**
+ * GET /health
+ *
+ * Basic liveness check (kept for existing monitors - same as /health/live).
+ */
+healthRouter.get('/', (_req, res) => {
+  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+});
+
+/**
+ * GET /health/live
+ *
+ * The process is up and serving requests. Does not touch dependencies,
+ * so a Postgres or Threefold outage doesn't get the service restarted.
+ */
+healthRouter.get('/live', (_req, res) => {
+  res.json({ status: 'ok', timestamp: new Date().toISOString(), uptimeSeconds: Math.round(process.uptime()) });
+});
+
+/**
+ * GET /health/ready
+ *
+ * Checks Postgres (SELECT 1 through the pool) and Threefold (cheap authenticated request),
+ * and reports the last successful run of each HEALTH_SYNC_TYPES sync.
+ *
+ * - 200 status "ok": dependencies up, syncs fresh
+ * - 200 status "degraded": dependencies up, but a sync is older than HEALTH_SYNC_STALE_HOURS
+ * - 503 status "unavailable": Postgres or Threefold is down
+ */
+healthRouter.get('/ready', async (_req, res) => {
+  const [database, threefold] = await Promise.all([checkDatabase(), checkThreefold()]);
+
+  let syncs: Record<string, SyncFreshness> | null = null;
+  if (database.status === 'ok') {
+    try {
+      syncs = await getSyncFreshness();
+    } catch (err) {
+      log.warn('Failed to read last sync times', { err });
+    }
+  }
+
+  const dependenciesUp = database.status === 'ok' && threefold.status === 'ok';
+  const stale = syncs !== null && Object.values(syncs).some(s => s.stale);
+  const status = !dependenciesUp ? 'unavailable' : stale ? 'degraded' : 'ok';
+
+  res.status(dependenciesUp ? 200 : 503).json({
+    status,
+    timestamp: new Date().toISOString(),
+    checks: {
+      database,
+      threefold: { ...threefold, circuit: getCircuitState() },
+    },
+    customFieldDefinitionsLoadedAt: getCustomFieldDefinitionsLoadedAt()?.toISOString() ?? null,
+    syncStaleAfterHours: config.healthSyncStaleHours,
+    syncs,
+  });
+});
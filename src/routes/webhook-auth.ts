@@ -0,0 +1,144 @@
+import crypto from 'crypto';
+import type { Request } from 'express';
+import { config } from '../config.js';
+
+// SendGrid signed webhook headers
+const SIGNATURE_HEADER = 'x-twilio-email-event-webhook-signature';
+const TIMESTAMP_HEADER = 'x-twilio-email-event-webhook-timestamp';
+
+// Reject signed requests older than this (replay protection)
+const MAX_SIGNATURE_AGE_SECONDS = 5 * 60;
+
+/**
+ * Constant-time string comparison (hashes first so lengths don't leak).
+ */
+export function safeEqual(a: string, b: string): boolean {
+  const hashA = crypto.createHash('sha256').update(a).digest();
+  const hashB = crypto.createHash('sha256').update(b).digest();
+  return crypto.timingSafeEqual(hashA, hashB);
+}
+
+/**
+ * Whether any request authentication (URL token or basic auth) is configured.
+ */
+export function isWebhookAuthConfigured(): boolean {
+  return Boolean(config.sendgridWebhookSecret || config.sendgridBasicAuthUser);
+}
+
+/**
+ * Whether signature verification is configured (requires buffering the raw body).
+ */
+export function isSignatureVerificationConfigured(): boolean {
+  return Boolean(config.sendgridVerificationKey);
+}
+
+/**
+ * Check the shared-secret URL token (?token=...) or basic auth credentials.
+ * Either configured method is sufficient.
+ *
+ * @returns Rejection reason, or null if the request is authenticated
+ */
+export function checkWebhookAuth(req: Request): string | null {
+  if (!isWebhookAuthConfigured()) {
+    return null;
+  }
+
+  const token = req.query.token;
+  if (config.sendgridWebhookSecret && typeof token === 'string' && safeEqual(token, config.sendgridWebhookSecret)) {
+    return null;
+  }
+
+  const authorization = req.headers.authorization ?? '';
+  if (config.sendgridBasicAuthUser && authorization.startsWith('Basic ')) {
+    const decoded = Buffer.from(authorization.slice('Basic '.length), 'base64').toString('utf-8');
+    const separator = decoded.indexOf(':');
+    const user = decoded.slice(0, separator);
+    const password = decoded.slice(separator + 1);
+    if (
+      separator > 0 &&
+      safeEqual(user, config.sendgridBasicAuthUser) &&
+      safeEqual(password, config.sendgridBasicAuthPassword)
+    ) {
+      return null;
+    }
+    return 'invalid basic auth credentials';
+  }
+
+  return token ? 'invalid URL token' : 'missing credentials';
+}
+
+/**
+ * Verify the SendGrid ECDSA signature over timestamp + raw body.
+ *
+ * @returns Rejection reason, or null if the signature is valid (or verification is not configured)
+ */
+export function verifyWebhookSignature(req: Request, rawBody: Buffer): string | null {
+  if (!isSignatureVerificationConfigured()) {
+    return null;
+  }
+
+  const signature = req.headers[SIGNATURE_HEADER];
+  const timestamp = req.headers[TIMESTAMP_HEADER];
+  if (typeof signature !== 'string' || typeof timestamp !== 'string') {
+    return 'missing signature headers';
+  }
+
+  const ageSeconds = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (!Number.isFinite(ageSeconds) || ageSeconds > MAX_SIGNATURE_AGE_SECONDS) {
+    return 'signature timestamp outside allowed window';
+  }
+
+  try {
+    const publicKey = crypto.createPublicKey({
+      key: Buffer.from(config.sendgridVerificationKey, 'base64'),
+      format: 'der',
+      type: 'spki',
+    });
+    const payload = Buffer.concat([Buffer.from(timestamp, 'utf-8'), rawBody]);
+    const valid = crypto.verify('sha256', payload, publicKey, Buffer.from(signature, 'base64'));
+    return valid ? null : 'invalid signature';
+  } catch (err) {
+    return `signature verification failed: ${err instanceof Error ? err.message : String(err)}`;
+  }
+}
+
+/**
+ * Extract bare email addresses from a header value.
+ * Input: 'TrakIT <reports@corona.gov>, ops@threefold.ai'
+ * Output: ['reports@corona.gov', 'ops@threefold.ai']
+ */
+export function extractEmailAddresses(value: string): string[] {
+  const matches = value.match(/[^\s<>,;"']+@[^\s<>,;"']+/g) ?? [];
+  return matches.map(m => m.toLowerCase());
+}
+
+/**
+ * Whether an address matches an allowlist entry (exact address or "@domain").
+ */
+function matchesAllowlist(address: string, allowlist: string[]): boolean {
+  return allowlist.some(entry => (entry.startsWith('@') ? address.endsWith(entry) : address === entry));
+}
+
+/**
+ * Check the email's sender and recipients against the configured allowlists.
+ * Empty allowlists allow everything.
+ *
+ * @returns Rejection reason, or null if the email is allowed
+ */
+export function checkEmailAllowlist(from: string, to: string): string | null {
+  if (config.sendgridAllowedSenders.length > 0) {
+    const senders = extractEmailAddresses(from);
+    if (!senders.some(s => matchesAllowlist(s, config.sendgridAllowedSenders))) {
+      return `sender not allowed: ${from || '(empty)'}`;
+    }
+  }
+
+  if (config.sendgridAllowedRecipients.length > 0) {
+    const recipients = extractEmailAddresses(to);
+    if (!recipients.some(r => matchesAllowlist(r, config.sendgridAllowedRecipients))) {
+      return `recipient not allowed: ${to || '(empty)'}`;
+    }
+  }
+
+  return null;
+}
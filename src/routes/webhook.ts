@@ -1,14 +1,29 @@
 import { Router } from 'express';
 import busboy from 'busboy';
-import { parseCodeEnforcementCasesCsv } from '../parsers/code-enforcement-cases.js';
-import { processCasesSync } from '../sync/cases-sync.js';
+import { detectReportType } from '../parsers/detect-type.js';
+import { createSyncJob } from '../state/jobs.js';
+import { notifyJobWorker } from '../sync/job-worker.js';
+import { emailsReceived } from '../metrics.js';
+import { createLogger, withLogContext } from '../logger.js';
+import {
+  checkWebhookAuth,
+  verifyWebhookSignature,
+  isSignatureVerificationConfigured,
+  checkEmailAllowlist,
+} from './webhook-auth.js';
 
 export const webhookRouter = Router();
 
+const log = createLogger('WEBHOOK');
+
+// Same cap as manual uploads (admin.ts) - TrakIT exports are a few MB at most
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+
 interface ParsedEmail {
   from: string;
   to: string;
   subject: string;
+  messageId: string | null;
   attachments: Array<{
     filename: string;
     content: Buffer;
@@ -16,26 +31,66 @@ interface ParsedEmail {
   }>;
 }
 
+/**
+ * Extract the Message-ID from the raw header block SendGrid sends in the `headers` field.
+ */
+function parseMessageId(headers: string): string | null {
+  const match = headers.match(/^message-id:\s*(.+)$/im);
+  return match ? match[1].trim() : null;
+}
+
 /**
  * POST /webhook/sendgrid
  *
  * Receives inbound email from SendGrid Inbound Parse.
- * Only processes Code Enforcement Cases CSV attachments.
+ * Each TrakIT CSV attachment is queued as a sync job and processed by the
+ * background worker - the response only confirms the jobs were queued.
+ * Requests must pass the configured URL token / basic auth, signature and
+ * sender/recipient allowlist checks - see webhook-auth.ts. Emails that fail the allowlist
+ * get a 200 and are dropped, since SendGrid retries anything else.
+ * Bodies and attachments over MAX_BODY_BYTES are refused with 413.
+ * Processes Code Enforcement Cases, Violations, Inspections and Permits CSV attachments.
  */
 webhookRouter.post('/sendgrid', (req, res) => {
+  const authError = checkWebhookAuth(req);
+  if (authError) {
+    log.warn(`Rejected request: ${authError}`, { ip: req.ip });
+    emailsReceived.inc({ outcome: 'rejected' });
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
   const email: ParsedEmail = {
     from: '',
     to: '',
     subject: '',
+    messageId: null,
     attachments: [],
   };
 
-  const bb = busboy({ headers: req.headers });
+  if (Number(req.headers['content-length'] ?? 0) > MAX_BODY_BYTES) {
+    log.warn('Rejected request: body too large', { ip: req.ip, contentLength: req.headers['content-length'] });
+    emailsReceived.inc({ outcome: 'rejected' });
+    res.status(413).json({ error: 'Payload too large' });
+    return;
+  }
+
+  let tooLarge = false;
+  const rejectTooLarge = () => {
+    if (tooLarge) return;
+    tooLarge = true;
+    log.warn('Rejected request: body too large', { ip: req.ip });
+    emailsReceived.inc({ outcome: 'rejected' });
+    res.status(413).json({ error: 'Payload too large' });
+  };
+
+  const bb = busboy({ headers: req.headers, limits: { fileSize: MAX_BODY_BYTES } });
 
   bb.on('field', (name: string, val: string) => {
     if (name === 'from') email.from = val;
     if (name === 'to') email.to = val;
     if (name === 'subject') email.subject = val;
+    if (name === 'headers') email.messageId = parseMessageId(val);
   });
 
   bb.on('file', (name: string, file: NodeJS.ReadableStream, info: { filename: string; mimeType: string }) => {
@@ -45,6 +100,8 @@ webhookRouter.post('/sendgrid', (req, res) => {
       chunks.push(chunk);
     });
 
+    file.on('limit', rejectTooLarge);
+
     file.on('end', () => {
       const content = Buffer.concat(chunks);
       email.attachments.push({
@@ -55,66 +112,113 @@ webhookRouter.post('/sendgrid', (req, res) => {
     });
   });
 
-  bb.on('finish', async () => {
-    const timestamp = new Date().toISOString();
-    console.log('');
-    console.log('='.repeat(60));
-    console.log(`[WEBHOOK] ${timestamp} - Email received`);
-    console.log('='.repeat(60));
-    console.log(`[WEBHOOK] From: ${email.from}`);
-    console.log(`[WEBHOOK] Subject: ${email.subject}`);
-    console.log(`[WEBHOOK] Attachments: ${email.attachments.length}`);
-    email.attachments.forEach(a => console.log(`  - ${a.filename} (${(a.content.length / 1024).toFixed(1)} KB)`));
-    console.log('-'.repeat(60));
+  bb.on('finish', () => withLogContext({ messageId: email.messageId ?? undefined }, async () => {
+    if (tooLarge) return;
+
+    log.info('Email received', {
+      from: email.from,
+      subject: email.subject,
+      attachments: email.attachments.map(a => `${a.filename} (${(a.content.length / 1024).toFixed(1)} KB)`),
+    });
+
+    const allowlistError = checkEmailAllowlist(email.from, email.to);
+    if (allowlistError) {
+      log.warn(`Rejected email: ${allowlistError}`, { ip: req.ip });
+      emailsReceived.inc({ outcome: 'rejected' });
+      // 2xx so SendGrid doesn't keep redelivering it
+      res.status(200).json({ success: true, message: 'Ignored' });
+      return;
+    }
 
     try {
-      const subjectLower = email.subject.toLowerCase();
-      const filenameLower = email.attachments.map(a => a.filename.toLowerCase()).join(' ');
-
-      // Only process Code Enforcement Cases emails
-      const isCaseEmail =
-        subjectLower.includes('code_enforcement_cases') ||
-        subjectLower.includes('code enforcement cases') ||
-        filenameLower.includes('code_enforcement_cases') ||
-        filenameLower.includes('code enforcement cases');
-
-      if (!isCaseEmail) {
-        console.log(`[WEBHOOK] Not a Code Enforcement Cases email, ignoring`);
-        res.status(200).json({ success: true, message: 'Ignored - not a Code Enforcement Cases email' });
+      const subjectType = detectReportType(email.subject);
+      const isReportEmail =
+        subjectType !== null ||
+        email.attachments.some(a => detectReportType(a.filename) !== null);
+
+      if (!isReportEmail) {
+        log.info('Not a TrakIT report email, ignoring');
+        emailsReceived.inc({ outcome: 'ignored' });
+        res.status(200).json({ success: true, message: 'Ignored - not a TrakIT report email' });
         return;
       }
 
-      console.log(`[WEBHOOK] Code Enforcement Cases email detected`);
-
-      // Process each CSV attachment
+      // Queue each CSV attachment as a sync job for its report type
+      const jobIds: number[] = [];
       for (const attachment of email.attachments) {
         if (!attachment.filename.endsWith('.csv')) {
-          console.log(`[WEBHOOK] Skipping non-CSV: ${attachment.filename}`);
+          log.info(`Skipping non-CSV: ${attachment.filename}`);
+          continue;
+        }
+
+        const reportType = detectReportType(attachment.filename) ?? subjectType;
+        if (!reportType) {
+          log.info(`Unknown report type, skipping: ${attachment.filename}`);
           continue;
         }
 
-        console.log(`[WEBHOOK] Processing: ${attachment.filename}`);
-        const csvContent = attachment.content.toString('utf-8');
-        const cases = await parseCodeEnforcementCasesCsv(csvContent);
-        console.log(`[PARSE] Parsed ${cases.length} case records`);
-        await processCasesSync(cases);
+        const { id: jobId, duplicate } = await createSyncJob({
+          reportType,
+          filename: attachment.filename,
+          source: 'sendgrid',
+          emailFrom: email.from,
+          emailSubject: email.subject,
+          emailMessageId: email.messageId ?? undefined,
+          content: attachment.content.toString('utf-8'),
+        });
+        if (duplicate) {
+          log.info(`Ignoring redelivered ${reportType} attachment: ${attachment.filename}`, { jobId });
+        } else {
+          log.info(`Queued ${reportType} job: ${attachment.filename}`, { jobId });
+        }
+        jobIds.push(jobId);
       }
 
-      console.log('-'.repeat(60));
-      console.log(`[WEBHOOK] Processing complete`);
-      console.log('='.repeat(60));
-      console.log('');
-      res.status(200).json({ success: true });
+      // Sync runs in the background - reply now so SendGrid doesn't time out and retry
+      notifyJobWorker();
+
+      log.info(`Queued ${jobIds.length} job(s)`, { jobIds });
+      emailsReceived.inc({ outcome: jobIds.length > 0 ? 'queued' : 'ignored' });
+      res.status(200).json({ success: true, jobIds });
     } catch (error) {
-      console.error('[WEBHOOK] Error processing email:', error);
-      res.status(500).json({ error: 'Failed to process email' });
+      log.error('Error queuing email', { err: error });
+      res.status(500).json({ error: 'Failed to queue email' });
     }
-  });
+  }));
 
   bb.on('error', (err: Error) => {
-    console.error('Busboy error:', err);
+    log.error('Failed to parse multipart body', { err });
     res.status(400).json({ error: 'Failed to parse email' });
   });
 
-  req.pipe(bb);
+  if (!isSignatureVerificationConfigured()) {
+    req.pipe(bb);
+    return;
+  }
+
+  // Signature covers the raw body, so buffer it (up to MAX_BODY_BYTES) before handing it to busboy
+  const bodyChunks: Buffer[] = [];
+  let bodyBytes = 0;
+  req.on('data', (chunk: Buffer) => {
+    if (tooLarge) return;
+    bodyBytes += chunk.length;
+    if (bodyBytes > MAX_BODY_BYTES) {
+      bodyChunks.length = 0;
+      rejectTooLarge();
+      return;
+    }
+    bodyChunks.push(chunk);
+  });
+  req.on('end', () => {
+    if (tooLarge) return;
+    const rawBody = Buffer.concat(bodyChunks);
+    const signatureError = verifyWebhookSignature(req, rawBody);
+    if (signatureError) {
+      log.warn(`Rejected request: ${signatureError}`, { ip: req.ip });
+      emailsReceived.inc({ outcome: 'rejected' });
+      res.status(403).json({ error: 'Invalid signature' });
+      return;
+    }
+    bb.end(rawBody);
+  });
 });
@@ -0,0 +1,138 @@
+import { pool } from './db.js';
+
+/**
+ * Kind of change recorded for a case.
+ * - new / updated: detected by diffCases
+ * - missing / reappeared: detected by removal detection
+ * - resync: forced re-sync from the admin API (no change detected)
+ * - plan: applied from an approved dry-run plan
+ */
+export type CaseHistoryChangeType = 'new' | 'updated' | 'missing' | 'reappeared' | 'resync' | 'plan';
+
+/**
+ * Outcome of the Threefold side of a case change.
+ */
+export type CaseHistoryResult =
+  | 'updated'
+  | 'unchanged'
+  | 'queued'
+  | 'created'
+  | 'held_for_review'
+  | 'no_ticket'
+  | 'dry_run'
+  | 'skipped'
+  | 'error';
+
+/**
+ * Case fields tracked in history.
+ */
+export interface CaseHistoryValues {
+  opened: string | null;
+  closed: string | null;
+  status: string | null;
+}
+
+export interface CaseHistoryInput {
+  caseNo: string;
+  syncLogId: number | null;
+  sourceFile: string | null;
+  changeType: CaseHistoryChangeType;
+  transition: string | null;
+  oldValues: CaseHistoryValues | null;
+  newValues: CaseHistoryValues | null;
+  threefoldTicketId: number | null;
+  threefoldAction: string | null;
+  threefoldResult: CaseHistoryResult;
+  errorMessage?: string | null;
+}
+
+export interface CaseHistoryEntry extends CaseHistoryInput {
+  id: number;
+  createdAt: string;
+}
+
+interface CaseHistoryRow {
+  id: number;
+  case_no: string;
+  sync_log_id: number | null;
+  source_file: string | null;
+  change_type: CaseHistoryChangeType;
+  transition: string | null;
+  old_values: CaseHistoryValues | null;
+  new_values: CaseHistoryValues | null;
+  threefold_ticket_id: number | null;
+  threefold_action: string | null;
+  threefold_result: CaseHistoryResult;
+  error_message: string | null;
+  created_at: Date;
+}
+
+function toCaseHistoryEntry(row: CaseHistoryRow): CaseHistoryEntry {
+  return {
+    id: row.id,
+    caseNo: row.case_no,
+    syncLogId: row.sync_log_id,
+    sourceFile: row.source_file,
+    changeType: row.change_type,
+    transition: row.transition,
+    oldValues: row.old_values,
+    newValues: row.new_values,
+    threefoldTicketId: row.threefold_ticket_id,
+    threefoldAction: row.threefold_action,
+    threefoldResult: row.threefold_result,
+    errorMessage: row.error_message,
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
+/**
+ * Record case changes.
+ * Uses multi-row INSERT in batches (a first import records every case).
+ */
+export async function recordCaseHistory(entries: CaseHistoryInput[]): Promise<void> {
+  const BATCH_SIZE = 500;
+  const COLUMNS = 11;
+
+  for (let i = 0; i < entries.length; i += BATCH_SIZE) {
+    const batch = entries.slice(i, i + BATCH_SIZE);
+    const values: unknown[] = [];
+    const valuePlaceholders: string[] = [];
+
+    batch.forEach((entry, idx) => {
+      const offset = idx * COLUMNS;
+      valuePlaceholders.push(`(${Array.from({ length: COLUMNS }, (_, col) => `$${offset + col + 1}`).join(', ')})`);
+      values.push(
+        entry.caseNo,
+        entry.syncLogId,
+        entry.sourceFile,
+        entry.changeType,
+        entry.transition,
+        entry.oldValues ? JSON.stringify(entry.oldValues) : null,
+        entry.newValues ? JSON.stringify(entry.newValues) : null,
+        entry.threefoldTicketId,
+        entry.threefoldAction,
+        entry.threefoldResult,
+        entry.errorMessage ?? null
+      );
+    });
+
+    await pool.query(
+      `INSERT INTO case_state_history
+        (case_no, sync_log_id, source_file, change_type, transition, old_values, new_values,
+         threefold_ticket_id, threefold_action, threefold_result, error_message)
+       VALUES ${valuePlaceholders.join(', ')}`,
+      values
+    );
+  }
+}
+
+/**
+ * Get a case's change timeline, oldest first.
+ */
+export async function getCaseHistory(caseNo: string): Promise<CaseHistoryEntry[]> {
+  const result = await pool.query(
+    `SELECT * FROM case_state_history WHERE case_no = $1 ORDER BY created_at, id`,
+    [caseNo]
+  );
+  return result.rows.map(toCaseHistoryEntry);
+}
@@ -0,0 +1,358 @@
+import { pool } from './db.js';
+import { CodeEnforcementCaseRecord } from '../parsers/code-enforcement-cases.js';
+import { MatchCandidate } from '../matching/types.js';
+import { ReviewReason } from './review-queue.js';
+
+/**
+ * Lifecycle of a dry-run plan: pending → approved → applying → applied (or rejected).
+ */
+export type CasePlanStatus = 'pending' | 'approved' | 'applying' | 'applied' | 'rejected';
+
+/**
+ * What the sync would do for a changed case.
+ * - update: push field changes (and the transition comment/step) to an existing ticket
+ * - create_ticket: create a ticket for the case (CASE_TICKET_CREATION_ENABLED)
+ * - no_ticket / held_for_review: queue the case for manual review
+ * - unchanged: ticket already up to date
+ * - error: the read-only lookup failed
+ */
+export type CasePlanAction = 'update' | 'create_ticket' | 'no_ticket' | 'held_for_review' | 'unchanged' | 'error';
+
+export type CasePlanItemApplyStatus = 'pending' | 'applied' | 'skipped' | 'failed';
+
+/**
+ * A ticket custom field before and after the planned update.
+ */
+export interface PlannedFieldChange {
+  fieldKey: string;
+  before: unknown;
+  after: string | null;
+}
+
+export interface CasePlan {
+  id: number;
+  syncLogId: number | null;
+  sourceFile: string | null;
+  status: CasePlanStatus;
+  itemCount: number;
+  reviewedBy: string | null; // Who approved or rejected the plan
+  reviewedAt: string | null;
+  appliedAt: string | null;
+  createdAt: string;
+}
+
+export interface CasePlanItemInput {
+  caseNo: string;
+  changeType: 'new' | 'updated';
+  transition: string;
+  action: CasePlanAction;
+  ticketId: number | null;
+  // How the ticket was found: by cc_case_number (or cached ID), or by address (cc_case_number gets stamped)
+  matchedBy: 'case_number' | 'address' | null;
+  fieldChanges: PlannedFieldChange[];
+  comment: string | null;
+  stepId: number | null;
+  caseData: CodeEnforcementCaseRecord;
+  reviewReason: ReviewReason | null;
+  candidates: MatchCandidate[];
+  error: string | null;
+}
+
+export interface CasePlanItem extends CasePlanItemInput {
+  id: number;
+  planId: number;
+  applyStatus: CasePlanItemApplyStatus;
+  applyResult: string | null;
+  appliedAt: string | null;
+}
+
+interface CasePlanRow {
+  id: number;
+  sync_log_id: number | null;
+  source_file: string | null;
+  status: CasePlanStatus;
+  item_count: number;
+  reviewed_by: string | null;
+  reviewed_at: Date | null;
+  applied_at: Date | null;
+  created_at: Date;
+}
+
+interface CasePlanItemRow {
+  id: number;
+  plan_id: number;
+  case_no: string;
+  change_type: 'new' | 'updated';
+  transition: string;
+  action: CasePlanAction;
+  ticket_id: number | null;
+  matched_by: 'case_number' | 'address' | null;
+  field_changes: PlannedFieldChange[];
+  comment: string | null;
+  step_id: number | null;
+  case_data: CodeEnforcementCaseRecord;
+  review_reason: ReviewReason | null;
+  candidates: MatchCandidate[] | null;
+  error_message: string | null;
+  apply_status: CasePlanItemApplyStatus;
+  apply_result: string | null;
+  applied_at: Date | null;
+}
+
+function toCasePlan(row: CasePlanRow): CasePlan {
+  return {
+    id: row.id,
+    syncLogId: row.sync_log_id,
+    sourceFile: row.source_file,
+    status: row.status,
+    itemCount: row.item_count,
+    reviewedBy: row.reviewed_by,
+    reviewedAt: row.reviewed_at?.toISOString() ?? null,
+    appliedAt: row.applied_at?.toISOString() ?? null,
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
+function toCasePlanItem(row: CasePlanItemRow): CasePlanItem {
+  return {
+    id: row.id,
+    planId: row.plan_id,
+    caseNo: row.case_no,
+    changeType: row.change_type,
+    transition: row.transition,
+    action: row.action,
+    ticketId: row.ticket_id,
+    matchedBy: row.matched_by,
+    fieldChanges: row.field_changes,
+    comment: row.comment,
+    stepId: row.step_id,
+    caseData: row.case_data,
+    reviewReason: row.review_reason,
+    candidates: row.candidates ?? [],
+    error: row.error_message,
+    applyStatus: row.apply_status,
+    applyResult: row.apply_result,
+    appliedAt: row.applied_at?.toISOString() ?? null,
+  };
+}
+
+// Rows per multi-row INSERT
+const INSERT_BATCH_SIZE = 500;
+
+/**
+ * Save a plan and its items.
+ *
+ * @returns Plan ID
+ */
+export async function createCasePlan(
+  syncLogId: number | null,
+  sourceFile: string | null,
+  items: CasePlanItemInput[]
+): Promise<number> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const plan = await client.query(
+      `INSERT INTO case_sync_plan (sync_log_id, source_file, item_count) VALUES ($1, $2, $3) RETURNING id`,
+      [syncLogId, sourceFile, items.length]
+    );
+    const planId: number = plan.rows[0].id;
+
+    for (let i = 0; i < items.length; i += INSERT_BATCH_SIZE) {
+      const batch = items.slice(i, i + INSERT_BATCH_SIZE);
+      const values: unknown[] = [];
+      const placeholders = batch.map((item, j) => {
+        const base = j * 15;
+        values.push(
+          planId,
+          item.caseNo,
+          item.changeType,
+          item.transition,
+          item.action,
+          item.ticketId,
+          item.matchedBy,
+          JSON.stringify(item.fieldChanges),
+          item.comment,
+          item.stepId,
+          JSON.stringify(item.caseData),
+          item.reviewReason,
+          JSON.stringify(item.candidates),
+          item.error,
+          // Nothing to apply for these - mark them up front so apply only walks actionable items
+          item.action === 'unchanged' || item.action === 'error' ? 'skipped' : 'pending'
+        );
+        return `(${Array.from({ length: 15 }, (_, k) => `$${base + k + 1}`).join(', ')})`;
+      });
+
+      await client.query(
+        `INSERT INTO case_sync_plan_item (
+          plan_id, case_no, change_type, transition, action, ticket_id, matched_by, field_changes,
+          comment, step_id, case_data, review_reason, candidates, error_message, apply_status
+        ) VALUES ${placeholders.join(', ')}`,
+        values
+      );
+    }
+
+    await client.query('COMMIT');
+    return planId;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * List plans, newest first.
+ */
+export async function listCasePlans(options: {
+  status?: CasePlanStatus;
+  limit?: number;
+  offset?: number;
+}): Promise<{ items: CasePlan[]; total: number }> {
+  const limit = Math.min(options.limit ?? 50, 500);
+  const offset = options.offset ?? 0;
+  const where = options.status ? 'WHERE status = $1' : '';
+  const params = options.status ? [options.status] : [];
+
+  const [rows, count] = await Promise.all([
+    pool.query(
+      `SELECT * FROM case_sync_plan ${where} ORDER BY id DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    ),
+    pool.query(`SELECT COUNT(*)::int AS total FROM case_sync_plan ${where}`, params),
+  ]);
+
+  return {
+    items: rows.rows.map(toCasePlan),
+    total: count.rows[0].total,
+  };
+}
+
+/**
+ * Get a single plan.
+ */
+export async function getCasePlan(id: number): Promise<CasePlan | null> {
+  const result = await pool.query(`SELECT * FROM case_sync_plan WHERE id = $1`, [id]);
+  return result.rows[0] ? toCasePlan(result.rows[0]) : null;
+}
+
+/**
+ * Count a plan's items by action and by apply status.
+ */
+export async function countCasePlanItems(id: number): Promise<{
+  byAction: Partial<Record<CasePlanAction, number>>;
+  byApplyStatus: Partial<Record<CasePlanItemApplyStatus, number>>;
+}> {
+  const result = await pool.query(
+    `SELECT action, apply_status, COUNT(*)::int AS count FROM case_sync_plan_item
+     WHERE plan_id = $1 GROUP BY action, apply_status`,
+    [id]
+  );
+
+  const byAction: Partial<Record<CasePlanAction, number>> = {};
+  const byApplyStatus: Partial<Record<CasePlanItemApplyStatus, number>> = {};
+  for (const row of result.rows as Array<{ action: CasePlanAction; apply_status: CasePlanItemApplyStatus; count: number }>) {
+    byAction[row.action] = (byAction[row.action] ?? 0) + row.count;
+    byApplyStatus[row.apply_status] = (byApplyStatus[row.apply_status] ?? 0) + row.count;
+  }
+  return { byAction, byApplyStatus };
+}
+
+/**
+ * Get a plan's items in plan order, optionally only those with the given apply status.
+ */
+export async function getCasePlanItems(
+  planId: number,
+  applyStatus?: CasePlanItemApplyStatus
+): Promise<CasePlanItem[]> {
+  const result = await pool.query(
+    `SELECT * FROM case_sync_plan_item
+     WHERE plan_id = $1 AND ($2::text IS NULL OR apply_status = $2)
+     ORDER BY id`,
+    [planId, applyStatus ?? null]
+  );
+  return result.rows.map(toCasePlanItem);
+}
+
+/**
+ * Approve a pending plan.
+ *
+ * @returns false if the plan does not exist or is not pending
+ */
+export async function approveCasePlan(id: number, approvedBy: string): Promise<boolean> {
+  const result = await pool.query(
+    `UPDATE case_sync_plan SET status = 'approved', reviewed_by = $2, reviewed_at = NOW()
+     WHERE id = $1 AND status = 'pending'`,
+    [id, approvedBy]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Reject a plan that has not started applying.
+ *
+ * @returns false if the plan does not exist or is already applying/applied/rejected
+ */
+export async function rejectCasePlan(id: number, rejectedBy: string): Promise<boolean> {
+  const result = await pool.query(
+    `UPDATE case_sync_plan SET status = 'rejected', reviewed_by = $2, reviewed_at = NOW()
+     WHERE id = $1 AND status IN ('pending', 'approved')`,
+    [id, rejectedBy]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Claim a plan for applying: an approved plan, or one whose apply was interrupted - still
+ * 'applying' but with no heartbeat for leaseSeconds. A single conditional UPDATE, so only one
+ * caller (in any instance) can win the claim.
+ *
+ * @returns false if the plan does not exist, is not approved, or is being applied elsewhere
+ */
+export async function markCasePlanApplying(id: number, leaseSeconds: number): Promise<boolean> {
+  const result = await pool.query(
+    `UPDATE case_sync_plan SET status = 'applying', apply_heartbeat_at = NOW()
+     WHERE id = $1
+       AND (
+         status = 'approved'
+         OR (status = 'applying'
+             AND (apply_heartbeat_at IS NULL OR apply_heartbeat_at < NOW() - make_interval(secs => $2)))
+       )`,
+    [id, leaseSeconds]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Refresh the heartbeat of a plan being applied, renewing its lease.
+ */
+export async function heartbeatCasePlan(id: number): Promise<void> {
+  await pool.query(
+    `UPDATE case_sync_plan SET apply_heartbeat_at = NOW() WHERE id = $1 AND status = 'applying'`,
+    [id]
+  );
+}
+
+/**
+ * Mark a plan as fully applied.
+ */
+export async function markCasePlanApplied(id: number): Promise<void> {
+  await pool.query(`UPDATE case_sync_plan SET status = 'applied', applied_at = NOW() WHERE id = $1`, [id]);
+}
+
+/**
+ * Record the outcome of applying one plan item.
+ */
+export async function markCasePlanItem(
+  itemId: number,
+  applyStatus: CasePlanItemApplyStatus,
+  applyResult: string
+): Promise<void> {
+  await pool.query(
+    `UPDATE case_sync_plan_item SET apply_status = $2, apply_result = $3, applied_at = NOW() WHERE id = $1`,
+    [itemId, applyStatus, applyResult]
+  );
+}
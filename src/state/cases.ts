@@ -0,0 +1,179 @@
+import { pool } from './db.js';
+import { CodeEnforcementCaseRecord } from '../parsers/code-enforcement-cases.js';
+
+/**
+ * A stored case as returned by the admin API.
+ */
+export interface CaseSummary {
+  caseNo: string;
+  caseOpened: string | null;
+  caseClosed: string | null;
+  caseStatus: string;
+  caseType: string | null;
+  caseSubType: string | null;
+  siteAddress: string | null;
+  threefoldTicketId: number | null;
+  missedImports: number;
+  missingAt: string | null;
+  lastSeenAt: string;
+  createdAt: string;
+}
+
+export interface CaseDetail extends CaseSummary {
+  contentHash: string | null;
+  rawData: Record<string, string> | null;
+}
+
+export interface CaseListFilters {
+  status?: 'open' | 'closed';
+  type?: string;
+  subtype?: string;
+  linked?: boolean; // Has a cached Threefold ticket ID
+  missing?: boolean; // Marked missing from the export
+  lastSeenAfter?: string; // ISO datetime
+  lastSeenBefore?: string; // ISO datetime
+  limit?: number;
+  offset?: number;
+}
+
+interface CaseRow {
+  case_no: string;
+  case_opened: string | null;
+  case_closed: string | null;
+  case_status: string;
+  case_type: string | null;
+  case_subtype: string | null;
+  site_address: string | null;
+  threefold_ticket_id: number | null;
+  missed_imports: number;
+  missing_at: Date | null;
+  last_seen_at: Date;
+  created_at: Date;
+  content_hash: string | null;
+  raw_data: Record<string, string> | null;
+}
+
+function toCaseSummary(row: CaseRow): CaseSummary {
+  return {
+    caseNo: row.case_no,
+    caseOpened: row.case_opened,
+    caseClosed: row.case_closed,
+    caseStatus: row.case_status,
+    caseType: row.case_type,
+    caseSubType: row.case_subtype,
+    siteAddress: row.site_address,
+    threefoldTicketId: row.threefold_ticket_id,
+    missedImports: row.missed_imports,
+    missingAt: row.missing_at?.toISOString() ?? null,
+    lastSeenAt: row.last_seen_at.toISOString(),
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
+/**
+ * Build the WHERE clause for case filters.
+ * Type and subtype match case-insensitively.
+ */
+function buildCaseFilterClause(filters: CaseListFilters): { where: string; params: unknown[] } {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  const add = (condition: string, value: unknown) => {
+    params.push(value);
+    conditions.push(condition.replace('?', `$${params.length}`));
+  };
+
+  if (filters.status) add('case_status = ?', filters.status);
+  if (filters.type) add('UPPER(case_type) = UPPER(?)', filters.type);
+  if (filters.subtype) add('UPPER(case_subtype) = UPPER(?)', filters.subtype);
+  if (filters.linked !== undefined) {
+    conditions.push(filters.linked ? 'threefold_ticket_id IS NOT NULL' : 'threefold_ticket_id IS NULL');
+  }
+  if (filters.missing !== undefined) {
+    conditions.push(filters.missing ? 'missing_at IS NOT NULL' : 'missing_at IS NULL');
+  }
+  if (filters.lastSeenAfter) add('last_seen_at >= ?', filters.lastSeenAfter);
+  if (filters.lastSeenBefore) add('last_seen_at < ?', filters.lastSeenBefore);
+
+  return {
+    where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    params,
+  };
+}
+
+/**
+ * List stored cases matching the filters, most recently seen first.
+ */
+export async function listCases(filters: CaseListFilters): Promise<{ items: CaseSummary[]; total: number }> {
+  const limit = Math.min(filters.limit ?? 50, 500);
+  const offset = filters.offset ?? 0;
+  const { where, params } = buildCaseFilterClause(filters);
+
+  const [rows, count] = await Promise.all([
+    pool.query(
+      `SELECT case_no, case_opened, case_closed, case_status, case_type, case_subtype, site_address,
+              threefold_ticket_id, missed_imports, missing_at, last_seen_at, created_at
+       FROM case_state ${where}
+       ORDER BY last_seen_at DESC, case_no
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    ),
+    pool.query(`SELECT COUNT(*)::int AS total FROM case_state ${where}`, params),
+  ]);
+
+  return {
+    items: rows.rows.map(toCaseSummary),
+    total: count.rows[0].total,
+  };
+}
+
+/**
+ * Get a single stored case, including its raw CSV row.
+ */
+export async function getCase(caseNo: string): Promise<CaseDetail | null> {
+  const result = await pool.query(`SELECT * FROM case_state WHERE case_no = $1`, [caseNo]);
+  const row: CaseRow | undefined = result.rows[0];
+  if (!row) return null;
+
+  return {
+    ...toCaseSummary(row),
+    contentHash: row.content_hash,
+    rawData: row.raw_data,
+  };
+}
+
+/**
+ * A stored case rebuilt as a parsed CSV record, with its cached state.
+ */
+export interface StoredCaseRecord {
+  record: CodeEnforcementCaseRecord;
+  caseStatus: string;
+  contentHash: string | null;
+  threefoldTicketId: number | null;
+}
+
+/**
+ * Load stored cases as records, from the raw CSV row saved at the last import.
+ * Cases that are unknown (or were stored before raw_data was kept) are left out.
+ */
+export async function getStoredCaseRecords(caseNos: string[]): Promise<StoredCaseRecord[]> {
+  const result = await pool.query(
+    `SELECT * FROM case_state WHERE case_no = ANY($1) AND raw_data IS NOT NULL ORDER BY case_no`,
+    [caseNos]
+  );
+
+  return result.rows.map((row: CaseRow) => ({
+    record: {
+      caseNo: row.case_no,
+      caseOpened: row.case_opened,
+      caseClosed: row.case_closed,
+      caseType: row.case_type ?? '',
+      caseSubType: row.case_subtype ?? '',
+      siteAddress: row.site_address ?? '',
+      rawData: row.raw_data!,
+    },
+    caseStatus: row.case_status,
+    contentHash: row.content_hash,
+    threefoldTicketId: row.threefold_ticket_id,
+  }));
+}
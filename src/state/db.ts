@@ -0,0 +1,15 @@
+import pg from 'pg';
+import { config } from '../config.js';
+
+const { Pool } = pg;
+
+/**
+ * Shared Postgres connection pool for all state modules.
+ */
+export const pool = new Pool({
+  connectionString: config.databaseUrl,
+  ssl: config.nodeEnv === 'production' ? { rejectUnauthorized: false } : false,
+  max: 5,
+  idleTimeoutMillis: 30000,
+  connectionTimeoutMillis: 10000,
+});
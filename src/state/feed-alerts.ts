@@ -0,0 +1,120 @@
+import { pool } from './db.js';
+
+/**
+ * - stale_feed: no cases export has synced within FEED_STALE_HOURS (sync_log_id = last successful run)
+ * - row_drop: a cases run had far fewer rows than the run before it (sync_log_id = the short run)
+ */
+export type FeedAlertType = 'stale_feed' | 'row_drop';
+
+export interface FeedAlert {
+  id: number;
+  alertType: FeedAlertType;
+  syncLogId: number | null;
+  message: string;
+  details: Record<string, unknown> | null;
+  deliveredAt: string | null;
+  deliveryError: string | null;
+  createdAt: string;
+  resolvedAt: string | null;
+}
+
+interface FeedAlertRow {
+  id: number;
+  alert_type: FeedAlertType;
+  sync_log_id: number | null;
+  message: string;
+  details: Record<string, unknown> | null;
+  delivered_at: Date | null;
+  delivery_error: string | null;
+  created_at: Date;
+  resolved_at: Date | null;
+}
+
+function toFeedAlert(row: FeedAlertRow): FeedAlert {
+  return {
+    id: row.id,
+    alertType: row.alert_type,
+    syncLogId: row.sync_log_id,
+    message: row.message,
+    details: row.details,
+    deliveredAt: row.delivered_at?.toISOString() ?? null,
+    deliveryError: row.delivery_error,
+    createdAt: row.created_at.toISOString(),
+    resolvedAt: row.resolved_at?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Record an alert, unless one of this type was already raised for the same sync run.
+ *
+ * @returns The new alert, or null if it was already raised (so it isn't sent twice)
+ */
+export async function createFeedAlert(alert: {
+  alertType: FeedAlertType;
+  syncLogId: number | null;
+  message: string;
+  details?: Record<string, unknown>;
+}): Promise<FeedAlert | null> {
+  const result = await pool.query(
+    `INSERT INTO feed_alert (alert_type, sync_log_id, message, details)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (alert_type, COALESCE(sync_log_id, 0)) DO NOTHING
+     RETURNING *`,
+    [alert.alertType, alert.syncLogId, alert.message, alert.details ? JSON.stringify(alert.details) : null]
+  );
+  return result.rows[0] ? toFeedAlert(result.rows[0]) : null;
+}
+
+/**
+ * Record whether the alert reached the webhook.
+ */
+export async function markFeedAlertDelivery(id: number, deliveryError: string | null): Promise<void> {
+  await pool.query(
+    `UPDATE feed_alert SET delivered_at = CASE WHEN $2::text IS NULL THEN NOW() END, delivery_error = $2
+     WHERE id = $1`,
+    [id, deliveryError]
+  );
+}
+
+/**
+ * Unresolved alerts of a type, oldest first.
+ */
+export async function getOpenFeedAlerts(alertType: FeedAlertType): Promise<FeedAlert[]> {
+  const result = await pool.query(
+    `SELECT * FROM feed_alert WHERE alert_type = $1 AND resolved_at IS NULL ORDER BY id`,
+    [alertType]
+  );
+  return result.rows.map(toFeedAlert);
+}
+
+/**
+ * Mark an alert resolved (e.g., the feed is arriving again).
+ */
+export async function resolveFeedAlert(id: number): Promise<void> {
+  await pool.query(`UPDATE feed_alert SET resolved_at = NOW() WHERE id = $1 AND resolved_at IS NULL`, [id]);
+}
+
+/**
+ * List alerts, newest first.
+ */
+export async function listFeedAlerts(options: {
+  status?: 'open' | 'resolved';
+  limit?: number;
+  offset?: number;
+}): Promise<{ items: FeedAlert[]; total: number }> {
+  const limit = Math.min(options.limit ?? 50, 500);
+  const offset = options.offset ?? 0;
+  const where = options.status === 'open'
+    ? 'WHERE resolved_at IS NULL'
+    : options.status === 'resolved' ? 'WHERE resolved_at IS NOT NULL' : '';
+
+  const [rows, count] = await Promise.all([
+    pool.query(`SELECT * FROM feed_alert ${where} ORDER BY id DESC LIMIT $1 OFFSET $2`, [limit, offset]),
+    pool.query(`SELECT COUNT(*)::int AS total FROM feed_alert ${where}`),
+  ]);
+
+  return {
+    items: rows.rows.map(toFeedAlert),
+    total: count.rows[0].total,
+  };
+}
@@ -0,0 +1,200 @@
+import { pool } from './db.js';
+import { ReportType } from '../parsers/detect-type.js';
+
+export type SyncJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+/**
+ * A sync job without its CSV content.
+ */
+export interface SyncJob {
+  id: number;
+  reportType: ReportType;
+  filename: string;
+  source: string;
+  emailFrom: string | null;
+  emailSubject: string | null;
+  emailMessageId: string | null;
+  status: SyncJobStatus;
+  attempts: number;
+  errorMessage: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+/**
+ * A claimed sync job, including the CSV content to process.
+ */
+export interface ClaimedSyncJob extends SyncJob {
+  content: string;
+}
+
+const JOB_COLUMNS = `id, report_type, filename, source, email_from, email_subject, email_message_id, status, attempts,
+  error_message, created_at, started_at, completed_at`;
+
+interface SyncJobRow {
+  id: number;
+  report_type: ReportType;
+  filename: string;
+  source: string;
+  email_from: string | null;
+  email_subject: string | null;
+  email_message_id: string | null;
+  status: SyncJobStatus;
+  attempts: number;
+  error_message: string | null;
+  created_at: Date;
+  started_at: Date | null;
+  completed_at: Date | null;
+}
+
+function toSyncJob(row: SyncJobRow): SyncJob {
+  return {
+    id: row.id,
+    reportType: row.report_type,
+    filename: row.filename,
+    source: row.source,
+    emailFrom: row.email_from,
+    emailSubject: row.email_subject,
+    emailMessageId: row.email_message_id,
+    status: row.status,
+    attempts: row.attempts,
+    errorMessage: row.error_message,
+    createdAt: row.created_at.toISOString(),
+    startedAt: row.started_at?.toISOString() ?? null,
+    completedAt: row.completed_at?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Queue a CSV attachment for background processing.
+ *
+ * SendGrid redelivers an email when it doesn't get a 2xx in time, so an attachment whose email
+ * Message-ID and filename already have a job is not queued again - the existing job is returned.
+ * The unique index on (email_message_id, filename) makes this safe for concurrent redeliveries.
+ */
+export async function createSyncJob(job: {
+  reportType: ReportType;
+  filename: string;
+  source: string;
+  emailFrom?: string;
+  emailSubject?: string;
+  emailMessageId?: string;
+  content: string;
+}): Promise<{ id: number; duplicate: boolean }> {
+  const result = await pool.query(
+    `INSERT INTO sync_job (report_type, filename, source, email_from, email_subject, email_message_id, content)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     ON CONFLICT (email_message_id, filename) WHERE email_message_id IS NOT NULL DO NOTHING
+     RETURNING id`,
+    [
+      job.reportType,
+      job.filename,
+      job.source,
+      job.emailFrom ?? null,
+      job.emailSubject ?? null,
+      job.emailMessageId ?? null,
+      job.content,
+    ]
+  );
+  if (result.rows[0]) {
+    return { id: result.rows[0].id, duplicate: false };
+  }
+
+  const existing = await pool.query(
+    `SELECT id FROM sync_job WHERE email_message_id = $1 AND filename = $2`,
+    [job.emailMessageId, job.filename]
+  );
+  return { id: existing.rows[0].id, duplicate: true };
+}
+
+/**
+ * Claim the oldest queued job and mark it running.
+ * SKIP LOCKED keeps two workers (e.g., during a redeploy) from claiming the same job.
+ */
+export async function claimNextSyncJob(): Promise<ClaimedSyncJob | null> {
+  const result = await pool.query(
+    `UPDATE sync_job SET
+      status = 'running',
+      attempts = attempts + 1,
+      started_at = NOW(),
+      heartbeat_at = NOW()
+     WHERE id = (
+       SELECT id FROM sync_job
+       WHERE status = 'queued'
+       ORDER BY id
+       LIMIT 1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING ${JOB_COLUMNS}, content`
+  );
+
+  const row = result.rows[0];
+  return row ? { ...toSyncJob(row), content: row.content } : null;
+}
+
+/**
+ * Mark a job succeeded. The CSV content is dropped to keep the table small.
+ */
+export async function markSyncJobSucceeded(id: number): Promise<void> {
+  await pool.query(
+    `UPDATE sync_job SET status = 'succeeded', content = NULL, error_message = NULL, completed_at = NOW()
+     WHERE id = $1`,
+    [id]
+  );
+}
+
+/**
+ * Mark a job failed. The CSV content is kept so the job can be inspected or re-queued.
+ */
+export async function markSyncJobFailed(id: number, errorMessage: string): Promise<void> {
+  await pool.query(
+    `UPDATE sync_job SET status = 'failed', error_message = $2, completed_at = NOW()
+     WHERE id = $1`,
+    [id, errorMessage]
+  );
+}
+
+/**
+ * Refresh a running job's heartbeat, renewing its lease.
+ */
+export async function heartbeatSyncJob(id: number): Promise<void> {
+  await pool.query(`UPDATE sync_job SET heartbeat_at = NOW() WHERE id = $1 AND status = 'running'`, [id]);
+}
+
+/**
+ * Put jobs left running by a dead process (crash/redeploy) back in the queue.
+ * Only jobs whose heartbeat is older than leaseSeconds are taken - during a rolling deploy the
+ * other instance's running job keeps heartbeating and is left alone.
+ */
+export async function requeueInterruptedSyncJobs(leaseSeconds: number): Promise<number> {
+  const result = await pool.query(
+    `UPDATE sync_job SET status = 'queued', started_at = NULL, heartbeat_at = NULL
+     WHERE status = 'running'
+       AND COALESCE(heartbeat_at, started_at, created_at) < NOW() - make_interval(secs => $1)`,
+    [leaseSeconds]
+  );
+  return result.rowCount ?? 0;
+}
+
+/**
+ * Get a single job by ID.
+ */
+export async function getSyncJob(id: number): Promise<SyncJob | null> {
+  const result = await pool.query(`SELECT ${JOB_COLUMNS} FROM sync_job WHERE id = $1`, [id]);
+  return result.rows[0] ? toSyncJob(result.rows[0]) : null;
+}
+
+/**
+ * List recent jobs, newest first.
+ */
+export async function listSyncJobs(options: { status?: SyncJobStatus; limit?: number }): Promise<SyncJob[]> {
+  const limit = Math.min(options.limit ?? 50, 500);
+  const result = options.status
+    ? await pool.query(
+        `SELECT ${JOB_COLUMNS} FROM sync_job WHERE status = $1 ORDER BY id DESC LIMIT $2`,
+        [options.status, limit]
+      )
+    : await pool.query(`SELECT ${JOB_COLUMNS} FROM sync_job ORDER BY id DESC LIMIT $1`, [limit]);
+  return result.rows.map(toSyncJob);
+}
@@ -0,0 +1,239 @@
+import { pool } from './db.js';
+import { TicketMutation } from '../sync/ticket-mutations.js';
+
+// superseded: a dead custom field write whose fields were all written again after it failed,
+// or a dead permit upsert followed by a newer delivered one
+export type OutboxStatus = 'pending' | 'succeeded' | 'dead' | 'superseded';
+
+export type OutboxItem = TicketMutation & {
+  id: number;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+interface OutboxRow {
+  id: number;
+  ticket_id: number | null;
+  case_no: string | null;
+  action: TicketMutation['action'];
+  payload: TicketMutation['payload'];
+  status: OutboxStatus;
+  attempts: number;
+  next_attempt_at: Date;
+  last_error: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+function toOutboxItem(row: OutboxRow): OutboxItem {
+  return {
+    id: row.id,
+    ticketId: row.ticket_id,
+    caseNo: row.case_no,
+    action: row.action,
+    payload: row.payload,
+    status: row.status,
+    attempts: row.attempts,
+    nextAttemptAt: row.next_attempt_at.toISOString(),
+    lastError: row.last_error,
+    createdAt: row.created_at.toISOString(),
+    updatedAt: row.updated_at.toISOString(),
+  } as OutboxItem;
+}
+
+/**
+ * Store a failed ticket mutation for retry, or dead-lettered when nextAttemptAt is null.
+ * The first attempt already happened, so it counts towards the attempt limit.
+ */
+export async function enqueueOutboxItem(
+  mutation: TicketMutation,
+  error: string,
+  nextAttemptAt: Date | null
+): Promise<number> {
+  const result = await pool.query(
+    `INSERT INTO ticket_outbox (ticket_id, case_no, action, payload, status, attempts, next_attempt_at, last_error)
+     VALUES ($1, $2, $3, $4, CASE WHEN $5::timestamptz IS NULL THEN 'dead' ELSE 'pending' END, 1, COALESCE($5::timestamptz, NOW()), $6)
+     RETURNING id`,
+    [mutation.ticketId, mutation.caseNo, mutation.action, JSON.stringify(mutation.payload), nextAttemptAt, error]
+  );
+  return result.rows[0].id;
+}
+
+/**
+ * Store a mutation that has not been attempted yet, due now.
+ * Used to keep a ticket's writes in order while older items for it are still pending.
+ */
+export async function queueOutboxItem(mutation: TicketMutation): Promise<number> {
+  const result = await pool.query(
+    `INSERT INTO ticket_outbox (ticket_id, case_no, action, payload, status, attempts, next_attempt_at)
+     VALUES ($1, $2, $3, $4, 'pending', 0, NOW())
+     RETURNING id`,
+    [mutation.ticketId, mutation.caseNo, mutation.action, JSON.stringify(mutation.payload)]
+  );
+  return result.rows[0].id;
+}
+
+/**
+ * Whether the mutation's ticket (or permit, for a permit upsert) has pending outbox items -
+ * new writes to it must go behind them.
+ */
+export async function hasPendingOutboxItems(mutation: TicketMutation): Promise<boolean> {
+  const result = mutation.action === 'permit_upsert'
+    ? await pool.query(
+        `SELECT EXISTS (
+           SELECT 1 FROM ticket_outbox
+           WHERE action = 'permit_upsert' AND payload->>'permit_number' = $1 AND status = 'pending'
+         ) AS pending`,
+        [mutation.payload.permit_number]
+      )
+    : await pool.query(
+        `SELECT EXISTS (SELECT 1 FROM ticket_outbox WHERE ticket_id = $1 AND status = 'pending') AS pending`,
+        [mutation.ticketId]
+      );
+  return result.rows[0].pending;
+}
+
+/**
+ * Get pending items whose next attempt is due, oldest first.
+ *
+ * Only the oldest pending item of each ticket (or permit) is returned, so a ticket's mutations are
+ * delivered in order: while its head item is waiting on a retry, nothing queued after it runs.
+ */
+export async function getDueOutboxItems(limit: number): Promise<OutboxItem[]> {
+  const result = await pool.query(
+    `SELECT * FROM ticket_outbox o
+     WHERE o.status = 'pending' AND o.next_attempt_at <= NOW()
+       AND NOT EXISTS (
+         SELECT 1 FROM ticket_outbox earlier
+         WHERE earlier.status = 'pending' AND earlier.id < o.id
+           AND (
+             earlier.ticket_id = o.ticket_id
+             OR (o.action = 'permit_upsert' AND earlier.action = 'permit_upsert'
+                 AND earlier.payload->>'permit_number' = o.payload->>'permit_number')
+           )
+       )
+     ORDER BY o.id
+     LIMIT $1`,
+    [limit]
+  );
+  return result.rows.map(toOutboxItem);
+}
+
+/**
+ * Mark an item as delivered.
+ */
+export async function markOutboxSucceeded(id: number): Promise<void> {
+  await pool.query(
+    `UPDATE ticket_outbox SET status = 'succeeded', attempts = attempts + 1, last_error = NULL, updated_at = NOW()
+     WHERE id = $1`,
+    [id]
+  );
+}
+
+/**
+ * Record a failed attempt - reschedules the item, or dead-letters it when nextAttemptAt is null.
+ */
+export async function markOutboxFailed(id: number, error: string, nextAttemptAt: Date | null): Promise<void> {
+  await pool.query(
+    `UPDATE ticket_outbox SET
+      status = CASE WHEN $3::timestamptz IS NULL THEN 'dead' ELSE 'pending' END,
+      attempts = attempts + 1,
+      next_attempt_at = COALESCE($3::timestamptz, next_attempt_at),
+      last_error = $2,
+      updated_at = NOW()
+     WHERE id = $1`,
+    [id, error, nextAttemptAt]
+  );
+}
+
+/**
+ * Drop fields from dead custom field writes of a ticket once a newer write has delivered them,
+ * so re-driving a dead item cannot overwrite the newer values. Items left with no fields are
+ * marked superseded. Only items older than beforeId are touched, when given (an outbox item
+ * delivered out of a re-drive only supersedes items that failed before it was queued).
+ *
+ * @returns Number of dead items changed
+ */
+export async function supersedeDeadFieldWrites(
+  ticketId: number,
+  fieldKeys: string[],
+  beforeId?: number
+): Promise<number> {
+  if (fieldKeys.length === 0) return 0;
+
+  const result = await pool.query(
+    `UPDATE ticket_outbox SET
+      payload = payload - $2::text[],
+      status = CASE WHEN (payload - $2::text[]) = '{}'::jsonb THEN 'superseded' ELSE status END,
+      updated_at = NOW()
+     WHERE ticket_id = $1 AND action = 'custom_fields' AND status = 'dead'
+       AND payload ?| $2::text[]
+       AND ($3::int IS NULL OR id < $3)`,
+    [ticketId, fieldKeys, beforeId ?? null]
+  );
+  return result.rowCount ?? 0;
+}
+
+/**
+ * Mark a permit's dead upserts as superseded once a newer upsert of it has been delivered
+ * (each upsert sends the whole permit). Only items older than beforeId are touched, when given.
+ *
+ * @returns Number of dead items superseded
+ */
+export async function supersedeDeadPermitUpserts(permitNo: string, beforeId?: number): Promise<number> {
+  const result = await pool.query(
+    `UPDATE ticket_outbox SET status = 'superseded', updated_at = NOW()
+     WHERE action = 'permit_upsert' AND payload->>'permit_number' = $1 AND status = 'dead'
+       AND ($2::int IS NULL OR id < $2)`,
+    [permitNo, beforeId ?? null]
+  );
+  return result.rowCount ?? 0;
+}
+
+/**
+ * List outbox items by status, newest first.
+ */
+export async function listOutboxItems(options: {
+  status?: OutboxStatus;
+  limit?: number;
+  offset?: number;
+}): Promise<{ items: OutboxItem[]; total: number }> {
+  const status = options.status ?? 'dead';
+  const limit = Math.min(options.limit ?? 50, 500);
+  const offset = options.offset ?? 0;
+
+  const [rows, count] = await Promise.all([
+    pool.query(
+      `SELECT * FROM ticket_outbox WHERE status = $1 ORDER BY id DESC LIMIT $2 OFFSET $3`,
+      [status, limit, offset]
+    ),
+    pool.query(`SELECT COUNT(*)::int AS total FROM ticket_outbox WHERE status = $1`, [status]),
+  ]);
+
+  return {
+    items: rows.rows.map(toOutboxItem),
+    total: count.rows[0].total,
+  };
+}
+
+/**
+ * Re-drive dead-lettered items: reset attempts and make them due now.
+ * Re-drives a single item when id is given, otherwise every dead item.
+ */
+export async function requeueDeadOutboxItems(id?: number): Promise<number> {
+  const result = id === undefined
+    ? await pool.query(
+        `UPDATE ticket_outbox SET status = 'pending', attempts = 0, next_attempt_at = NOW(), updated_at = NOW()
+         WHERE status = 'dead'`
+      )
+    : await pool.query(
+        `UPDATE ticket_outbox SET status = 'pending', attempts = 0, next_attempt_at = NOW(), updated_at = NOW()
+         WHERE status = 'dead' AND id = $1`,
+        [id]
+      );
+  return result.rowCount ?? 0;
+}
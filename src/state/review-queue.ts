@@ -0,0 +1,167 @@
+import { pool } from './db.js';
+import { CodeEnforcementCaseRecord } from '../parsers/code-enforcement-cases.js';
+import { MatchCandidate } from '../matching/types.js';
+
+/**
+ * Why a case was queued for manual review.
+ * - no_ticket: no ticket has the case number and address matching found no candidates
+ * - low_confidence: address candidates exist but none scored high enough
+ * - ambiguous: more than one candidate scored about equally well
+ */
+export type ReviewReason = 'no_ticket' | 'low_confidence' | 'ambiguous';
+
+export type ReviewStatus = 'pending' | 'resolved' | 'dismissed';
+
+export interface ReviewQueueItem {
+  id: number;
+  caseNo: string;
+  caseData: CodeEnforcementCaseRecord;
+  candidateTickets: MatchCandidate[];
+  reason: ReviewReason;
+  status: ReviewStatus;
+  resolvedTicketId: number | null;
+  resolvedBy: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+}
+
+interface ReviewQueueRow {
+  id: number;
+  external_id: string;
+  violation_data: CodeEnforcementCaseRecord;
+  candidate_tickets: MatchCandidate[] | null;
+  reason: ReviewReason;
+  status: ReviewStatus;
+  resolved_ticket_id: number | null;
+  resolved_by: string | null;
+  resolved_at: Date | null;
+  created_at: Date;
+}
+
+function toReviewQueueItem(row: ReviewQueueRow): ReviewQueueItem {
+  return {
+    id: row.id,
+    caseNo: row.external_id,
+    caseData: row.violation_data,
+    candidateTickets: row.candidate_tickets ?? [],
+    reason: row.reason,
+    status: row.status,
+    resolvedTicketId: row.resolved_ticket_id,
+    resolvedBy: row.resolved_by,
+    resolvedAt: row.resolved_at?.toISOString() ?? null,
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
+/**
+ * Queue a case for manual review.
+ * A case has at most one pending item - re-queuing refreshes its data, candidates and reason.
+ *
+ * Note: the case record is stored in the violation_data column, which predates case support.
+ */
+export async function enqueueCaseReview(
+  record: CodeEnforcementCaseRecord,
+  reason: ReviewReason,
+  candidates: MatchCandidate[] = []
+): Promise<number> {
+  const updated = await pool.query(
+    `UPDATE review_queue SET
+      violation_data = $2,
+      candidate_tickets = $3,
+      reason = $4
+     WHERE external_id = $1 AND status = 'pending'
+     RETURNING id`,
+    [record.caseNo, JSON.stringify(record), JSON.stringify(candidates), reason]
+  );
+
+  if (updated.rows[0]) {
+    return updated.rows[0].id;
+  }
+
+  const inserted = await pool.query(
+    `INSERT INTO review_queue (external_id, violation_data, candidate_tickets, reason)
+     VALUES ($1, $2, $3, $4)
+     RETURNING id`,
+    [record.caseNo, JSON.stringify(record), JSON.stringify(candidates), reason]
+  );
+  return inserted.rows[0].id;
+}
+
+/**
+ * List review queue items, newest first.
+ */
+export async function listReviewQueue(options: {
+  status?: ReviewStatus;
+  limit?: number;
+  offset?: number;
+}): Promise<{ items: ReviewQueueItem[]; total: number }> {
+  const status = options.status ?? 'pending';
+  const limit = Math.min(options.limit ?? 50, 500);
+  const offset = options.offset ?? 0;
+
+  const [rows, count] = await Promise.all([
+    pool.query(
+      `SELECT * FROM review_queue WHERE status = $1 ORDER BY created_at DESC LIMIT $2 OFFSET $3`,
+      [status, limit, offset]
+    ),
+    pool.query(`SELECT COUNT(*)::int AS total FROM review_queue WHERE status = $1`, [status]),
+  ]);
+
+  return {
+    items: rows.rows.map(toReviewQueueItem),
+    total: count.rows[0].total,
+  };
+}
+
+/**
+ * Get a single review queue item.
+ */
+export async function getReviewQueueItem(id: number): Promise<ReviewQueueItem | null> {
+  const result = await pool.query(`SELECT * FROM review_queue WHERE id = $1`, [id]);
+  return result.rows[0] ? toReviewQueueItem(result.rows[0]) : null;
+}
+
+/**
+ * Mark a pending item as resolved to a ticket.
+ */
+export async function resolveReviewQueueItem(id: number, ticketId: number, resolvedBy: string): Promise<void> {
+  await pool.query(
+    `UPDATE review_queue SET
+      status = 'resolved',
+      resolved_ticket_id = $2,
+      resolved_by = $3,
+      resolved_at = NOW()
+     WHERE id = $1 AND status = 'pending'`,
+    [id, ticketId, resolvedBy]
+  );
+}
+
+/**
+ * Mark a pending item as dismissed (no ticket should be linked).
+ */
+export async function dismissReviewQueueItem(id: number, resolvedBy: string): Promise<boolean> {
+  const result = await pool.query(
+    `UPDATE review_queue SET
+      status = 'dismissed',
+      resolved_by = $2,
+      resolved_at = NOW()
+     WHERE id = $1 AND status = 'pending'`,
+    [id, resolvedBy]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Resolve any pending item for a case that has since been linked to a ticket by a sync.
+ */
+export async function resolvePendingCaseReviews(caseNo: string, ticketId: number): Promise<void> {
+  await pool.query(
+    `UPDATE review_queue SET
+      status = 'resolved',
+      resolved_ticket_id = $2,
+      resolved_by = 'sync',
+      resolved_at = NOW()
+     WHERE external_id = $1 AND status = 'pending'`,
+    [caseNo, ticketId]
+  );
+}
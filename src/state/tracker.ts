@@ -1,16 +1,11 @@
-import pg from 'pg';
-import { config } from '../config.js';
+import { pool } from './db.js';
 import { CodeEnforcementCaseRecord, generateCaseHash } from '../parsers/code-enforcement-cases.js';
+import { ViolationRecord } from '../parsers/violations.js';
+import { InspectionRecord } from '../parsers/inspections.js';
+import { PermitRecord, generatePermitHash } from '../parsers/permits.js';
+import { createLogger } from '../logger.js';
 
-const { Pool } = pg;
-
-const pool = new Pool({
-  connectionString: config.databaseUrl,
-  ssl: config.nodeEnv === 'production' ? { rejectUnauthorized: false } : false,
-  max: 5,
-  idleTimeoutMillis: 30000,
-  connectionTimeoutMillis: 10000,
-});
+const log = createLogger('DB');
 
 /**
  * Initialize the database schema.
@@ -50,11 +45,257 @@ export async function initDb(): Promise<void> {
         created_at TIMESTAMPTZ DEFAULT NOW()
       );
 
+      -- Removal detection: consecutive full imports a case was absent from, and when it was marked missing
+      ALTER TABLE case_state
+        ADD COLUMN IF NOT EXISTS missed_imports INTEGER NOT NULL DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS missing_at TIMESTAMPTZ;
+
       CREATE INDEX IF NOT EXISTS idx_case_state_status ON case_state(case_status);
       CREATE INDEX IF NOT EXISTS idx_case_state_threefold_id ON case_state(threefold_ticket_id);
+      CREATE INDEX IF NOT EXISTS idx_case_state_missing ON case_state(missing_at);
+    `);
+
+    // Violation state table for tracking violation changes
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS violation_state (
+        external_id TEXT PRIMARY KEY,
+        activity_id TEXT NOT NULL,
+        case_no TEXT NOT NULL,
+        violation_type TEXT NOT NULL,
+        violation_status TEXT NOT NULL,
+        date_observed TEXT,
+        site_address TEXT,
+        raw_data JSONB,
+        last_seen_at TIMESTAMPTZ DEFAULT NOW(),
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      );
+
+      ALTER TABLE violation_state
+        ADD COLUMN IF NOT EXISTS matched_ticket_id INTEGER,
+        ADD COLUMN IF NOT EXISTS match_method TEXT,
+        ADD COLUMN IF NOT EXISTS match_confidence TEXT,
+        ADD COLUMN IF NOT EXISTS matched_at TIMESTAMPTZ;
+
+      CREATE INDEX IF NOT EXISTS idx_violation_state_case_no ON violation_state(case_no);
+      CREATE INDEX IF NOT EXISTS idx_violation_state_status ON violation_state(violation_status);
+      CREATE INDEX IF NOT EXISTS idx_violation_state_matched_ticket ON violation_state(matched_ticket_id);
+    `);
+
+    // Inspection state table for tracking inspection changes
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS inspection_state (
+        unique_key TEXT PRIMARY KEY,
+        case_no TEXT NOT NULL,
+        inspection_type TEXT NOT NULL,
+        result TEXT NOT NULL,
+        scheduled_date TEXT,
+        completed_date TEXT,
+        inspector TEXT,
+        raw_data JSONB,
+        last_seen_at TIMESTAMPTZ DEFAULT NOW(),
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_inspection_state_case_no ON inspection_state(case_no);
+      CREATE INDEX IF NOT EXISTS idx_inspection_state_result ON inspection_state(result);
+    `);
+
+    // Permit state table for tracking permit changes
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS permit_state (
+        permit_no TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        permit_type TEXT,
+        permit_subtype TEXT,
+        applied_at TEXT,
+        approved_at TEXT,
+        issued_at TEXT,
+        finaled_at TEXT,
+        expired_at TEXT,
+        site_address TEXT,
+        description TEXT,
+        notes TEXT,
+        job_value NUMERIC,
+        apn TEXT,
+        raw_data JSONB,
+        content_hash TEXT,
+        threefold_permit_id INTEGER,
+        threefold_type_id INTEGER,
+        threefold_subtype_id INTEGER,
+        threefold_status_id INTEGER,
+        last_seen_at TIMESTAMPTZ DEFAULT NOW(),
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_permit_state_status ON permit_state(status);
+      CREATE INDEX IF NOT EXISTS idx_permit_state_type ON permit_state(permit_type);
+      CREATE INDEX IF NOT EXISTS idx_permit_state_threefold_id ON permit_state(threefold_permit_id);
+    `);
+
+    // Review queue for cases that need a human to pick the ticket
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS review_queue (
+        id SERIAL PRIMARY KEY,
+        external_id TEXT NOT NULL,
+        violation_data JSONB NOT NULL,
+        candidate_tickets JSONB,
+        reason TEXT NOT NULL,
+        status TEXT DEFAULT 'pending',
+        resolved_ticket_id INTEGER,
+        resolved_by TEXT,
+        resolved_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_review_queue_status ON review_queue(status);
+      CREATE INDEX IF NOT EXISTS idx_review_queue_external_id ON review_queue(external_id);
+    `);
+
+    // Case change history - one row per detected case change and what we did about it in Threefold
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS case_state_history (
+        id SERIAL PRIMARY KEY,
+        case_no TEXT NOT NULL,
+        sync_log_id INTEGER,
+        source_file TEXT,
+        change_type TEXT NOT NULL,
+        transition TEXT,
+        old_values JSONB,
+        new_values JSONB,
+        threefold_ticket_id INTEGER,
+        threefold_action TEXT,
+        threefold_result TEXT NOT NULL,
+        error_message TEXT,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_case_state_history_case_no ON case_state_history(case_no, created_at);
     `);
 
-    console.log('Database schema initialized');
+    // Sync jobs - CSV attachments received by the webhook, processed by the background worker
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS sync_job (
+        id SERIAL PRIMARY KEY,
+        report_type TEXT NOT NULL,
+        filename TEXT NOT NULL,
+        source TEXT NOT NULL,
+        email_from TEXT,
+        email_subject TEXT,
+        content TEXT,
+        status TEXT NOT NULL DEFAULT 'queued',
+        attempts INTEGER DEFAULT 0,
+        error_message TEXT,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        started_at TIMESTAMPTZ,
+        completed_at TIMESTAMPTZ
+      );
+
+      -- Message-ID header of the email the attachment came from, for correlating logs
+      -- and ignoring SendGrid redeliveries of an email already queued
+      ALTER TABLE sync_job ADD COLUMN IF NOT EXISTS email_message_id TEXT;
+
+      -- Refreshed while a job runs, so only jobs of a dead process are re-queued
+      ALTER TABLE sync_job ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMPTZ;
+
+      CREATE INDEX IF NOT EXISTS idx_sync_job_status ON sync_job(status);
+
+      -- One job per email attachment, so concurrent SendGrid redeliveries can't both be queued.
+      -- Replaces the non-unique idx_sync_job_message; older duplicates keep their job but lose the Message-ID.
+      DROP INDEX IF EXISTS idx_sync_job_message;
+      UPDATE sync_job SET email_message_id = NULL
+      WHERE email_message_id IS NOT NULL AND EXISTS (
+        SELECT 1 FROM sync_job first
+        WHERE first.email_message_id = sync_job.email_message_id AND first.filename = sync_job.filename
+          AND first.id < sync_job.id
+      );
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_job_message_unique
+        ON sync_job(email_message_id, filename) WHERE email_message_id IS NOT NULL;
+    `);
+
+    // Outbox of Threefold ticket mutations that failed and are waiting to be retried
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS ticket_outbox (
+        id SERIAL PRIMARY KEY,
+        ticket_id INTEGER NOT NULL,
+        case_no TEXT,
+        action TEXT NOT NULL,
+        payload JSONB NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER DEFAULT 0,
+        next_attempt_at TIMESTAMPTZ DEFAULT NOW(),
+        last_error TEXT,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_ticket_outbox_due ON ticket_outbox(status, next_attempt_at);
+      CREATE INDEX IF NOT EXISTS idx_ticket_outbox_pending_ticket ON ticket_outbox(ticket_id, id) WHERE status = 'pending';
+
+      -- Permit upserts are queued too, with no ticket
+      ALTER TABLE ticket_outbox ALTER COLUMN ticket_id DROP NOT NULL;
+    `);
+
+    // Dry-run plans - what a cases sync would do in Threefold, saved for sign-off and applied once approved
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS case_sync_plan (
+        id SERIAL PRIMARY KEY,
+        sync_log_id INTEGER,
+        source_file TEXT,
+        status TEXT NOT NULL DEFAULT 'pending',
+        item_count INTEGER NOT NULL DEFAULT 0,
+        reviewed_by TEXT,
+        reviewed_at TIMESTAMPTZ,
+        applied_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS case_sync_plan_item (
+        id SERIAL PRIMARY KEY,
+        plan_id INTEGER NOT NULL REFERENCES case_sync_plan(id) ON DELETE CASCADE,
+        case_no TEXT NOT NULL,
+        change_type TEXT NOT NULL,
+        transition TEXT NOT NULL,
+        action TEXT NOT NULL,
+        ticket_id INTEGER,
+        matched_by TEXT,
+        field_changes JSONB NOT NULL DEFAULT '[]',
+        comment TEXT,
+        step_id INTEGER,
+        case_data JSONB NOT NULL,
+        review_reason TEXT,
+        candidates JSONB,
+        error_message TEXT,
+        apply_status TEXT NOT NULL DEFAULT 'pending',
+        apply_result TEXT,
+        applied_at TIMESTAMPTZ
+      );
+
+      -- Refreshed while a plan is being applied - only a plan whose heartbeat lapsed can be taken over
+      ALTER TABLE case_sync_plan ADD COLUMN IF NOT EXISTS apply_heartbeat_at TIMESTAMPTZ;
+
+      CREATE INDEX IF NOT EXISTS idx_case_sync_plan_status ON case_sync_plan(status);
+      CREATE INDEX IF NOT EXISTS idx_case_sync_plan_item_plan ON case_sync_plan_item(plan_id, id);
+    `);
+
+    // Feed watchdog alerts - one row per stale feed / row drop, so each is only sent once
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS feed_alert (
+        id SERIAL PRIMARY KEY,
+        alert_type TEXT NOT NULL,
+        sync_log_id INTEGER,
+        message TEXT NOT NULL,
+        details JSONB,
+        delivered_at TIMESTAMPTZ,
+        delivery_error TEXT,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        resolved_at TIMESTAMPTZ
+      );
+
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_feed_alert_unique ON feed_alert(alert_type, COALESCE(sync_log_id, 0));
+      CREATE INDEX IF NOT EXISTS idx_feed_alert_open ON feed_alert(resolved_at);
+    `);
+
+    log.info('Database schema initialized');
   } finally {
     client.release();
   }
@@ -89,6 +330,119 @@ export async function completeSyncLog(
   );
 }
 
+/**
+ * When each sync type last completed without a fatal error (null if it never has).
+ */
+export async function getLastSuccessfulSyncs(syncTypes: string[]): Promise<Record<string, Date | null>> {
+  const result = await pool.query(
+    `SELECT sync_type, MAX(completed_at) AS completed_at
+     FROM sync_log
+     WHERE sync_type = ANY($1) AND completed_at IS NOT NULL AND error_message IS NULL
+     GROUP BY sync_type`,
+    [syncTypes]
+  );
+
+  const lastSuccess: Record<string, Date | null> = Object.fromEntries(syncTypes.map(t => [t, null]));
+  for (const row of result.rows as Array<{ sync_type: string; completed_at: Date }>) {
+    lastSuccess[row.sync_type] = row.completed_at;
+  }
+  return lastSuccess;
+}
+
+/**
+ * A sync run as returned by the admin API.
+ */
+export interface SyncLogEntry {
+  id: number;
+  syncType: string;
+  startedAt: string;
+  completedAt: string | null;
+  durationSeconds: number | null;
+  totalRecords: number;
+  changedRecords: number;
+  errors: number;
+  errorMessage: string | null;
+}
+
+interface SyncLogRow {
+  id: number;
+  sync_type: string;
+  started_at: Date;
+  completed_at: Date | null;
+  duration_seconds: number | null;
+  total_records: number;
+  changed_records: number;
+  errors: number;
+  error_message: string | null;
+}
+
+function toSyncLogEntry(row: SyncLogRow): SyncLogEntry {
+  return {
+    id: row.id,
+    syncType: row.sync_type,
+    startedAt: row.started_at.toISOString(),
+    completedAt: row.completed_at?.toISOString() ?? null,
+    durationSeconds: row.duration_seconds,
+    totalRecords: row.total_records,
+    changedRecords: row.changed_records,
+    errors: row.errors,
+    errorMessage: row.error_message,
+  };
+}
+
+const SYNC_LOG_COLUMNS = `id, sync_type, started_at, completed_at,
+  ROUND(EXTRACT(EPOCH FROM completed_at - started_at)::numeric, 1)::float AS duration_seconds,
+  total_records, changed_records, errors, error_message`;
+
+/**
+ * List sync runs, newest first.
+ */
+export async function listSyncLogs(options: {
+  syncType?: string;
+  limit?: number;
+  offset?: number;
+}): Promise<{ items: SyncLogEntry[]; total: number }> {
+  const limit = Math.min(options.limit ?? 50, 500);
+  const offset = options.offset ?? 0;
+  const where = options.syncType ? 'WHERE sync_type = $1' : '';
+  const params = options.syncType ? [options.syncType] : [];
+
+  const [rows, count] = await Promise.all([
+    pool.query(
+      `SELECT ${SYNC_LOG_COLUMNS} FROM sync_log ${where}
+       ORDER BY started_at DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    ),
+    pool.query(`SELECT COUNT(*)::int AS total FROM sync_log ${where}`, params),
+  ]);
+
+  return {
+    items: rows.rows.map(toSyncLogEntry),
+    total: count.rows[0].total,
+  };
+}
+
+/**
+ * Get a single sync run.
+ */
+export async function getSyncLog(id: number): Promise<SyncLogEntry | null> {
+  const result = await pool.query(`SELECT ${SYNC_LOG_COLUMNS} FROM sync_log WHERE id = $1`, [id]);
+  return result.rows[0] ? toSyncLogEntry(result.rows[0]) : null;
+}
+
+/**
+ * Most recent runs of a sync type that completed without a fatal error, newest first.
+ */
+export async function getRecentSuccessfulSyncLogs(syncType: string, limit: number): Promise<SyncLogEntry[]> {
+  const result = await pool.query(
+    `SELECT ${SYNC_LOG_COLUMNS} FROM sync_log
+     WHERE sync_type = $1 AND completed_at IS NOT NULL AND error_message IS NULL
+     ORDER BY completed_at DESC LIMIT $2`,
+    [syncType, limit]
+  );
+  return result.rows.map(toSyncLogEntry);
+}
+
 // ============ Code Enforcement Case State ============
 
 export interface CaseStateChange {
@@ -208,13 +562,13 @@ export async function upsertCaseState(records: CodeEnforcementCaseRecord[]): Pro
   const uniqueRecords = Array.from(deduped.values());
 
   if (uniqueRecords.length !== records.length) {
-    console.log(`[DB] Deduplicated ${records.length} → ${uniqueRecords.length} case records (${records.length - uniqueRecords.length} duplicates)`);
+    log.info(`Deduplicated ${records.length} → ${uniqueRecords.length} case records`, { duplicates: records.length - uniqueRecords.length });
   }
 
   const BATCH_SIZE = 1000;
   const client = await pool.connect();
   const totalBatches = Math.ceil(uniqueRecords.length / BATCH_SIZE);
-  console.log(`[DB] Upserting ${uniqueRecords.length} case records in ${totalBatches} batches...`);
+  log.info(`Upserting ${uniqueRecords.length} case records`, { batches: totalBatches });
 
   try {
     for (let i = 0; i < uniqueRecords.length; i += BATCH_SIZE) {
@@ -262,7 +616,7 @@ export async function upsertCaseState(records: CodeEnforcementCaseRecord[]): Pro
       await client.query(query, values);
     }
 
-    console.log(`[DB] Upserted ${uniqueRecords.length} case records successfully`);
+    log.info(`Upserted ${uniqueRecords.length} case records`);
   } finally {
     client.release();
   }
@@ -281,6 +635,77 @@ export async function updateCaseThreefoldId(
   );
 }
 
+/**
+ * A case whose presence in the export changed (marked missing, or seen again after being missing).
+ */
+export interface CasePresenceChange {
+  caseNo: string;
+  threefoldTicketId: number | null;
+}
+
+/**
+ * Count cases that are not marked missing.
+ */
+export async function countPresentCases(): Promise<number> {
+  const result = await pool.query(`SELECT COUNT(*)::int AS total FROM case_state WHERE missing_at IS NULL`);
+  return result.rows[0].total;
+}
+
+/**
+ * Reset the missed-import counter of cases present in a full export.
+ *
+ * @returns Cases that had been marked missing and are back
+ */
+export async function resetSeenCases(caseNos: string[]): Promise<CasePresenceChange[]> {
+  const result = await pool.query(
+    `UPDATE case_state c SET missed_imports = 0, missing_at = NULL
+     FROM (
+       SELECT case_no, missing_at AS previous_missing_at
+       FROM case_state
+       WHERE case_no = ANY($1) AND missed_imports > 0
+     ) previous
+     WHERE c.case_no = previous.case_no
+     RETURNING c.case_no, c.threefold_ticket_id, previous.previous_missing_at`,
+    [caseNos]
+  );
+
+  return result.rows
+    .filter(row => row.previous_missing_at !== null)
+    .map(row => ({ caseNo: row.case_no, threefoldTicketId: row.threefold_ticket_id }));
+}
+
+/**
+ * Count one more missed import for every case absent from a full export, and mark
+ * cases missing once they have been absent from `missingAfterImports` imports in a row.
+ *
+ * @returns Cases newly marked missing
+ */
+export async function markUnseenCases(caseNos: string[], missingAfterImports: number): Promise<CasePresenceChange[]> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query(
+      `UPDATE case_state SET missed_imports = missed_imports + 1
+       WHERE missing_at IS NULL AND NOT (case_no = ANY($1))`,
+      [caseNos]
+    );
+    const result = await client.query(
+      `UPDATE case_state SET missing_at = NOW()
+       WHERE missing_at IS NULL AND missed_imports >= $1
+       RETURNING case_no, threefold_ticket_id`,
+      [missingAfterImports]
+    );
+    await client.query('COMMIT');
+
+    return result.rows.map(row => ({ caseNo: row.case_no, threefoldTicketId: row.threefold_ticket_id }));
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
 /**
  * Get cached Threefold ticket ID for a case.
  */
@@ -292,6 +717,493 @@ export async function getCaseThreefoldId(caseNo: string): Promise<number | null>
   return result.rows[0]?.threefold_ticket_id ?? null;
 }
 
+// ============ Violation State ============
+
+export interface ViolationStateChange {
+  externalId: string;
+  caseNo: string;
+  record: ViolationRecord;
+  isNew: boolean;
+  previousStatus: string | null;
+  previousDateObserved: string | null;
+}
+
+/**
+ * Compare violations against stored state and return changes.
+ * A violation is changed when its status or observed date differs from what we last saw.
+ */
+export async function diffViolations(records: ViolationRecord[]): Promise<ViolationStateChange[]> {
+  // Deduplicate by external_id (last occurrence wins)
+  const deduped = new Map<string, ViolationRecord>();
+  for (const record of records) {
+    deduped.set(record.externalId, record);
+  }
+  const uniqueRecords = Array.from(deduped.values());
+
+  const result = await pool.query(
+    `SELECT external_id, violation_status, date_observed
+     FROM violation_state WHERE external_id = ANY($1)`,
+    [uniqueRecords.map(r => r.externalId)]
+  );
+
+  const currentStates = new Map<string, { violation_status: string; date_observed: string | null }>();
+  for (const row of result.rows) {
+    currentStates.set(row.external_id, row);
+  }
+
+  const changes: ViolationStateChange[] = [];
+  for (const record of uniqueRecords) {
+    const currentState = currentStates.get(record.externalId);
+
+    if (!currentState) {
+      changes.push({
+        externalId: record.externalId,
+        caseNo: record.caseNo,
+        record,
+        isNew: true,
+        previousStatus: null,
+        previousDateObserved: null,
+      });
+    } else if (
+      currentState.violation_status !== record.violationStatus ||
+      currentState.date_observed !== record.dateObserved
+    ) {
+      changes.push({
+        externalId: record.externalId,
+        caseNo: record.caseNo,
+        record,
+        isNew: false,
+        previousStatus: currentState.violation_status,
+        previousDateObserved: currentState.date_observed,
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Update stored violation state.
+ * Uses multi-row INSERT for optimal write performance.
+ */
+export async function upsertViolationState(records: ViolationRecord[]): Promise<void> {
+  if (records.length === 0) return;
+
+  // Deduplicate by external_id (last occurrence wins)
+  const deduped = new Map<string, ViolationRecord>();
+  for (const record of records) {
+    deduped.set(record.externalId, record);
+  }
+  const uniqueRecords = Array.from(deduped.values());
+
+  const BATCH_SIZE = 1000;
+  const client = await pool.connect();
+  log.info(`Upserting ${uniqueRecords.length} violation records`);
+
+  try {
+    for (let i = 0; i < uniqueRecords.length; i += BATCH_SIZE) {
+      const batch = uniqueRecords.slice(i, i + BATCH_SIZE);
+
+      const values: unknown[] = [];
+      const valuePlaceholders: string[] = [];
+
+      batch.forEach((record, idx) => {
+        const offset = idx * 8;
+        valuePlaceholders.push(
+          `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7}, $${offset + 8}, NOW())`
+        );
+        values.push(
+          record.externalId,
+          record.activityId,
+          record.caseNo,
+          record.violationType,
+          record.violationStatus,
+          record.dateObserved,
+          record.siteAddress,
+          JSON.stringify(record.rawData)
+        );
+      });
+
+      await client.query(
+        `INSERT INTO violation_state
+          (external_id, activity_id, case_no, violation_type, violation_status, date_observed, site_address, raw_data, last_seen_at)
+        VALUES ${valuePlaceholders.join(', ')}
+        ON CONFLICT (external_id) DO UPDATE SET
+          activity_id = EXCLUDED.activity_id,
+          violation_status = EXCLUDED.violation_status,
+          date_observed = EXCLUDED.date_observed,
+          site_address = EXCLUDED.site_address,
+          raw_data = EXCLUDED.raw_data,
+          last_seen_at = NOW()`,
+        values
+      );
+    }
+
+    log.info(`Upserted ${uniqueRecords.length} violation records`);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Stored violations that are not in this export - deleted in TrakIT (or stored under an older external ID).
+ */
+export async function findRemovedViolations(
+  records: ViolationRecord[]
+): Promise<Array<{ externalId: string; caseNo: string }>> {
+  const result = await pool.query(
+    `SELECT external_id, case_no FROM violation_state WHERE NOT (external_id = ANY($1))`,
+    [records.map(r => r.externalId)]
+  );
+  return result.rows.map(row => ({ externalId: row.external_id, caseNo: row.case_no }));
+}
+
+/**
+ * Delete stored violations (ones no longer in the export).
+ */
+export async function deleteViolationState(externalIds: string[]): Promise<void> {
+  if (externalIds.length === 0) return;
+  await pool.query(`DELETE FROM violation_state WHERE external_id = ANY($1)`, [externalIds]);
+}
+
+/**
+ * Record the ticket a case's violations were pushed to.
+ */
+export async function updateViolationsMatchedTicket(
+  caseNo: string,
+  ticketId: number,
+  matchMethod: string
+): Promise<void> {
+  await pool.query(
+    `UPDATE violation_state SET
+      matched_ticket_id = $2,
+      match_method = $3,
+      match_confidence = 'high',
+      matched_at = NOW()
+     WHERE case_no = $1`,
+    [caseNo, ticketId, matchMethod]
+  );
+}
+
+// ============ Inspection State ============
+
+export interface InspectionStateChange {
+  uniqueKey: string;
+  caseNo: string;
+  record: InspectionRecord;
+  isNew: boolean;
+  previousResult: string | null;
+  previousCompletedDate: string | null;
+}
+
+/**
+ * Whether any inspection state has been stored yet.
+ * Used to populate state silently on the first sync instead of commenting on every historic inspection.
+ */
+export async function hasInspectionState(): Promise<boolean> {
+  const result = await pool.query(`SELECT 1 FROM inspection_state LIMIT 1`);
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Compare inspections against stored state and return changes.
+ * An inspection is changed when its result, dates or inspector differ from what we last saw.
+ */
+export async function diffInspections(records: InspectionRecord[]): Promise<InspectionStateChange[]> {
+  // Deduplicate by unique_key (last occurrence wins)
+  const deduped = new Map<string, InspectionRecord>();
+  for (const record of records) {
+    deduped.set(record.uniqueKey, record);
+  }
+  const uniqueRecords = Array.from(deduped.values());
+
+  const result = await pool.query(
+    `SELECT unique_key, result, scheduled_date, completed_date, inspector
+     FROM inspection_state WHERE unique_key = ANY($1)`,
+    [uniqueRecords.map(r => r.uniqueKey)]
+  );
+
+  const currentStates = new Map<string, {
+    result: string;
+    scheduled_date: string | null;
+    completed_date: string | null;
+    inspector: string | null;
+  }>();
+  for (const row of result.rows) {
+    currentStates.set(row.unique_key, row);
+  }
+
+  const changes: InspectionStateChange[] = [];
+  for (const record of uniqueRecords) {
+    const currentState = currentStates.get(record.uniqueKey);
+
+    if (!currentState) {
+      changes.push({
+        uniqueKey: record.uniqueKey,
+        caseNo: record.caseNo,
+        record,
+        isNew: true,
+        previousResult: null,
+        previousCompletedDate: null,
+      });
+    } else if (
+      currentState.result !== record.result ||
+      currentState.scheduled_date !== record.scheduledDate ||
+      currentState.completed_date !== record.completedDate ||
+      (currentState.inspector ?? '') !== record.inspector
+    ) {
+      changes.push({
+        uniqueKey: record.uniqueKey,
+        caseNo: record.caseNo,
+        record,
+        isNew: false,
+        previousResult: currentState.result,
+        previousCompletedDate: currentState.completed_date,
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Update stored inspection state.
+ * Uses multi-row INSERT for optimal write performance.
+ */
+export async function upsertInspectionState(records: InspectionRecord[]): Promise<void> {
+  if (records.length === 0) return;
+
+  // Deduplicate by unique_key (last occurrence wins)
+  const deduped = new Map<string, InspectionRecord>();
+  for (const record of records) {
+    deduped.set(record.uniqueKey, record);
+  }
+  const uniqueRecords = Array.from(deduped.values());
+
+  const BATCH_SIZE = 1000;
+  const client = await pool.connect();
+  log.info(`Upserting ${uniqueRecords.length} inspection records`);
+
+  try {
+    for (let i = 0; i < uniqueRecords.length; i += BATCH_SIZE) {
+      const batch = uniqueRecords.slice(i, i + BATCH_SIZE);
+
+      const values: unknown[] = [];
+      const valuePlaceholders: string[] = [];
+
+      batch.forEach((record, idx) => {
+        const offset = idx * 8;
+        valuePlaceholders.push(
+          `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7}, $${offset + 8}, NOW())`
+        );
+        values.push(
+          record.uniqueKey,
+          record.caseNo,
+          record.inspectionType,
+          record.result,
+          record.scheduledDate,
+          record.completedDate,
+          record.inspector,
+          JSON.stringify(record.rawData)
+        );
+      });
+
+      await client.query(
+        `INSERT INTO inspection_state
+          (unique_key, case_no, inspection_type, result, scheduled_date, completed_date, inspector, raw_data, last_seen_at)
+        VALUES ${valuePlaceholders.join(', ')}
+        ON CONFLICT (unique_key) DO UPDATE SET
+          result = EXCLUDED.result,
+          scheduled_date = EXCLUDED.scheduled_date,
+          completed_date = EXCLUDED.completed_date,
+          inspector = EXCLUDED.inspector,
+          raw_data = EXCLUDED.raw_data,
+          last_seen_at = NOW()`,
+        values
+      );
+    }
+
+    log.info(`Upserted ${uniqueRecords.length} inspection records`);
+  } finally {
+    client.release();
+  }
+}
+
+// ============ Permit State ============
+
+export interface PermitStateChange {
+  permitNo: string;
+  record: PermitRecord;
+  previousHash: string | null;
+  newHash: string;
+  isNew: boolean;
+  previousStatus: string | null;
+  threefoldPermitId: number | null;
+}
+
+/**
+ * Compare permits against stored state and return changes.
+ * Uses content hash to detect any field changes.
+ */
+export async function diffPermits(records: PermitRecord[]): Promise<PermitStateChange[]> {
+  // Deduplicate by permit_no (last occurrence wins)
+  const deduped = new Map<string, PermitRecord>();
+  for (const record of records) {
+    deduped.set(record.permitNo, record);
+  }
+  const uniqueRecords = Array.from(deduped.values());
+
+  const result = await pool.query(
+    `SELECT permit_no, status, content_hash, threefold_permit_id
+     FROM permit_state WHERE permit_no = ANY($1)`,
+    [uniqueRecords.map(r => r.permitNo)]
+  );
+
+  const currentStates = new Map<string, {
+    status: string;
+    content_hash: string;
+    threefold_permit_id: number | null;
+  }>();
+  for (const row of result.rows) {
+    currentStates.set(row.permit_no, row);
+  }
+
+  const changes: PermitStateChange[] = [];
+  for (const record of uniqueRecords) {
+    const newHash = generatePermitHash(record);
+    const currentState = currentStates.get(record.permitNo);
+
+    if (!currentState) {
+      changes.push({
+        permitNo: record.permitNo,
+        record,
+        previousHash: null,
+        newHash,
+        isNew: true,
+        previousStatus: null,
+        threefoldPermitId: null,
+      });
+    } else if (currentState.content_hash !== newHash) {
+      changes.push({
+        permitNo: record.permitNo,
+        record,
+        previousHash: currentState.content_hash,
+        newHash,
+        isNew: false,
+        previousStatus: currentState.status,
+        threefoldPermitId: currentState.threefold_permit_id,
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Update stored permit state.
+ * Uses multi-row INSERT for optimal write performance.
+ */
+export async function upsertPermitState(records: PermitRecord[]): Promise<void> {
+  if (records.length === 0) return;
+
+  // Deduplicate by permit_no (last occurrence wins)
+  const deduped = new Map<string, PermitRecord>();
+  for (const record of records) {
+    deduped.set(record.permitNo, record);
+  }
+  const uniqueRecords = Array.from(deduped.values());
+
+  const BATCH_SIZE = 500;
+  const COLUMNS = 16;
+  const client = await pool.connect();
+  log.info(`Upserting ${uniqueRecords.length} permit records`);
+
+  try {
+    for (let i = 0; i < uniqueRecords.length; i += BATCH_SIZE) {
+      const batch = uniqueRecords.slice(i, i + BATCH_SIZE);
+
+      const values: unknown[] = [];
+      const valuePlaceholders: string[] = [];
+
+      batch.forEach((record, idx) => {
+        const offset = idx * COLUMNS;
+        const placeholders = Array.from({ length: COLUMNS }, (_, n) => `$${offset + n + 1}`);
+        valuePlaceholders.push(`(${placeholders.join(', ')}, NOW())`);
+        values.push(
+          record.permitNo,
+          record.status,
+          record.permitType,
+          record.permitSubType,
+          record.appliedAt,
+          record.approvedAt,
+          record.issuedAt,
+          record.finaledAt,
+          record.expiredAt,
+          record.siteAddress,
+          record.description,
+          record.notes,
+          record.jobValue,
+          record.apn,
+          JSON.stringify(record.rawData),
+          generatePermitHash(record)
+        );
+      });
+
+      await client.query(
+        `INSERT INTO permit_state
+          (permit_no, status, permit_type, permit_subtype, applied_at, approved_at, issued_at, finaled_at,
+           expired_at, site_address, description, notes, job_value, apn, raw_data, content_hash, last_seen_at)
+        VALUES ${valuePlaceholders.join(', ')}
+        ON CONFLICT (permit_no) DO UPDATE SET
+          status = EXCLUDED.status,
+          permit_type = EXCLUDED.permit_type,
+          permit_subtype = EXCLUDED.permit_subtype,
+          applied_at = EXCLUDED.applied_at,
+          approved_at = EXCLUDED.approved_at,
+          issued_at = EXCLUDED.issued_at,
+          finaled_at = EXCLUDED.finaled_at,
+          expired_at = EXCLUDED.expired_at,
+          site_address = EXCLUDED.site_address,
+          description = EXCLUDED.description,
+          notes = EXCLUDED.notes,
+          job_value = EXCLUDED.job_value,
+          apn = EXCLUDED.apn,
+          raw_data = EXCLUDED.raw_data,
+          content_hash = EXCLUDED.content_hash,
+          last_seen_at = NOW()`,
+        values
+      );
+    }
+
+    log.info(`Upserted ${uniqueRecords.length} permit records`);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Update Threefold IDs for a permit after successful API sync.
+ * A permit pushed before its permit_state row is saved gets a placeholder row (no content hash,
+ * so the next diff compares it again) - upsertPermitState fills in the rest and keeps the IDs.
+ */
+export async function updatePermitThreefoldIds(
+  permitNo: string,
+  status: string,
+  ids: { permitId: number; typeId: number | null; subtypeId: number | null; statusId: number | null }
+): Promise<void> {
+  await pool.query(
+    `INSERT INTO permit_state
+      (permit_no, status, threefold_permit_id, threefold_type_id, threefold_subtype_id, threefold_status_id)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     ON CONFLICT (permit_no) DO UPDATE SET
+      threefold_permit_id = EXCLUDED.threefold_permit_id,
+      threefold_type_id = EXCLUDED.threefold_type_id,
+      threefold_subtype_id = EXCLUDED.threefold_subtype_id,
+      threefold_status_id = EXCLUDED.threefold_status_id`,
+    [permitNo, status, ids.permitId, ids.typeId, ids.subtypeId, ids.statusId]
+  );
+}
+
 /**
  * Clear all cached case state and sync logs.
  * Used for forcing a full re-sync.
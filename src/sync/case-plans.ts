@@ -0,0 +1,390 @@
+import { config } from '../config.js';
+import { CaseStateChange, determineCaseStatus, updateCaseThreefoldId } from '../state/tracker.js';
+import {
+  getCasePlan,
+  getCasePlanItems,
+  markCasePlanApplying,
+  heartbeatCasePlan,
+  markCasePlanApplied,
+  markCasePlanItem,
+  CasePlanItem,
+  CasePlanItemInput,
+  CasePlanItemApplyStatus,
+  PlannedFieldChange,
+} from '../state/case-plans.js';
+import { enqueueCaseReview, resolvePendingCaseReviews } from '../state/review-queue.js';
+import { recordCaseHistory, CaseHistoryInput, CaseHistoryResult } from '../state/case-history.js';
+import { getTicketById } from './threefold.js';
+import { sendOrQueueTicketMutation } from './ticket-mutations.js';
+import { findTicketForCase, shouldCreateTicketForCase, createTicketForCase } from './case-ticket.js';
+import { matchCaseByAddress } from '../matching/ticket-matcher.js';
+import { mapCaseFields, diffCaseFields } from '../mapping/case-field-mapping.js';
+import { getTransitionComment, getFirstLinkedComment, getTransitionStepId, CaseTransition } from './case-transitions.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('PLAN');
+
+// ============ Planning ============
+
+/**
+ * Work out what syncing a changed case would do in Threefold, without changing anything.
+ *
+ * Runs the same lookups as syncCaseChange (cached ID, cc_case_number search, address matching)
+ * and the same field comparison, but only reads. Lookup errors are returned as action 'error'.
+ */
+export async function planCaseChange(change: CaseStateChange, transition: CaseTransition): Promise<CasePlanItemInput> {
+  const item: CasePlanItemInput = {
+    caseNo: change.caseNo,
+    changeType: change.isNew ? 'new' : 'updated',
+    transition: transition.type,
+    action: 'unchanged',
+    ticketId: null,
+    matchedBy: null,
+    fieldChanges: [],
+    comment: null,
+    stepId: null,
+    caseData: change.record,
+    reviewReason: null,
+    candidates: [],
+    error: null,
+  };
+
+  try {
+    let ticket = await findTicketForCase(change.caseNo, change.threefoldTicketId);
+    const fieldChanges: PlannedFieldChange[] = [];
+
+    if (ticket) {
+      item.matchedBy = 'case_number';
+    } else if (config.addressMatchingEnabled) {
+      const match = await matchCaseByAddress(change.record);
+
+      if (match.status === 'matched') {
+        ticket = match.ticket;
+        item.matchedBy = 'address';
+        item.candidates = match.candidates;
+        fieldChanges.push({
+          fieldKey: 'cc_case_number',
+          before: match.ticket.customFields.cc_case_number ?? null,
+          after: change.caseNo,
+        });
+      } else if (match.status === 'held') {
+        return { ...item, action: 'held_for_review', reviewReason: match.reason, candidates: match.candidates };
+      }
+    }
+
+    if (!ticket) {
+      if (shouldCreateTicketForCase(change.record)) {
+        const values = { ...mapCaseFields(change.record.rawData), cc_case_number: change.caseNo };
+        return {
+          ...item,
+          action: 'create_ticket',
+          fieldChanges: Object.entries(values)
+            .filter(([, after]) => after !== null)
+            .map(([fieldKey, after]) => ({ fieldKey, before: null, after })),
+        };
+      }
+      return { ...item, action: 'no_ticket', reviewReason: 'no_ticket' };
+    }
+
+    const { changes } = diffCaseFields(mapCaseFields(change.record.rawData), ticket.customFields);
+    fieldChanges.push(...changes.map(c => ({ fieldKey: c.fieldKey, before: c.current, after: c.wanted })));
+    const linkComment = item.matchedBy === 'address' ? getFirstLinkedComment(change.record, transition) : null;
+
+    if (fieldChanges.length === 0 && !linkComment) {
+      return { ...item, action: 'unchanged', ticketId: ticket.id };
+    }
+
+    // As in applyCaseToTicket, the transition comment and step change only go out with mapped
+    // field changes, and a first link is announced either way
+    const comment = [linkComment, changes.length > 0 ? getTransitionComment(change.record, transition) : null]
+      .filter(Boolean)
+      .join('\n\n');
+    return {
+      ...item,
+      action: 'update',
+      ticketId: ticket.id,
+      fieldChanges,
+      comment: comment || null,
+      stepId: changes.length > 0 ? getTransitionStepId(transition) : null,
+    };
+  } catch (err) {
+    log.error('Lookup failed', { caseNo: change.caseNo, err });
+    return { ...item, action: 'error', error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * Short description of a planned item (for logs and case history).
+ */
+export function describePlanItem(item: CasePlanItemInput): string {
+  switch (item.action) {
+    case 'update':
+      return item.fieldChanges.length > 0
+        ? `update #${item.ticketId}: ${item.fieldChanges.map(c => `${c.fieldKey} ${c.before ?? 'null'} → ${c.after ?? 'null'}`).join(', ')}`
+        : `comment on #${item.ticketId}`;
+    case 'create_ticket':
+      return 'create ticket';
+    case 'no_ticket':
+    case 'held_for_review':
+      return `review_queue(${item.reviewReason})`;
+    case 'unchanged':
+      return item.ticketId ? `#${item.ticketId} up to date` : 'up to date';
+    case 'error':
+      return `lookup failed: ${item.error}`;
+  }
+}
+
+// ============ Applying ============
+
+// Plans being applied by this process
+const applying = new Set<number>();
+
+/**
+ * Whether this process is currently applying a plan.
+ */
+export function isCasePlanApplying(planId: number): boolean {
+  return applying.has(planId);
+}
+
+interface PlanItemOutcome {
+  applyStatus: CasePlanItemApplyStatus;
+  result: CaseHistoryResult;
+  detail: string;
+  ticketId: number | null;
+}
+
+function normalizeFieldValue(value: unknown): unknown {
+  return value === undefined || value === '' ? null : value;
+}
+
+/**
+ * Apply a planned ticket update exactly as planned.
+ * Skipped if any planned field no longer has its "before" value - the plan was approved against
+ * a ticket that has since changed, so it is no longer the plan that was signed off.
+ */
+async function applyPlannedUpdate(item: CasePlanItem): Promise<PlanItemOutcome> {
+  const ticketId = item.ticketId!;
+  const ticket = await getTicketById(ticketId);
+  if (!ticket) {
+    return { applyStatus: 'failed', result: 'error', detail: `Ticket #${ticketId} no longer exists`, ticketId: null };
+  }
+
+  const drifted = item.fieldChanges.filter(
+    c => normalizeFieldValue(ticket.customFields[c.fieldKey]) !== normalizeFieldValue(c.before)
+  );
+  if (drifted.length > 0) {
+    const detail = drifted
+      .map(c => `${c.fieldKey} was ${c.before ?? 'null'}, now ${normalizeFieldValue(ticket.customFields[c.fieldKey]) ?? 'null'}`)
+      .join(', ');
+    return { applyStatus: 'skipped', result: 'skipped', detail: `Ticket changed since plan: ${detail}`, ticketId };
+  }
+
+  const actions: string[] = [];
+  let queued = false;
+
+  // A first-link comment can be planned for a ticket whose fields are already up to date
+  if (item.fieldChanges.length > 0) {
+    const fieldsResult = await sendOrQueueTicketMutation({
+      action: 'custom_fields',
+      ticketId,
+      ticketTypeId: ticket.ticketTypeId,
+      caseNo: item.caseNo,
+      payload: Object.fromEntries(item.fieldChanges.map(c => [c.fieldKey, c.after])),
+    });
+    actions.push(`custom_fields(${item.fieldChanges.map(c => c.fieldKey).join(',')})${fieldsResult === 'queued' ? ' (queued)' : ''}`);
+    queued = fieldsResult === 'queued';
+  }
+
+  if (item.comment) {
+    const commentResult = await sendOrQueueTicketMutation({
+      action: 'comment',
+      ticketId,
+      caseNo: item.caseNo,
+      payload: { content: item.comment },
+    });
+    actions.push(`comment${commentResult === 'queued' ? ' (queued)' : ''}`);
+    queued = queued || commentResult === 'queued';
+  }
+
+  if (item.stepId !== null) {
+    const stepResult = await sendOrQueueTicketMutation({
+      action: 'change_step',
+      ticketId,
+      caseNo: item.caseNo,
+      payload: { stepId: item.stepId },
+    });
+    actions.push(`step:${item.stepId}${stepResult === 'queued' ? ' (queued)' : ''}`);
+    queued = queued || stepResult === 'queued';
+  }
+
+  return { applyStatus: 'applied', result: queued ? 'queued' : 'updated', detail: actions.join('; '), ticketId };
+}
+
+/**
+ * Apply one plan item.
+ */
+async function applyPlanItem(item: CasePlanItem): Promise<PlanItemOutcome> {
+  try {
+    switch (item.action) {
+      case 'update':
+        return await applyPlannedUpdate(item);
+
+      case 'create_ticket': {
+        const existing = await findTicketForCase(item.caseNo);
+        if (existing) {
+          return { applyStatus: 'skipped', result: 'skipped', detail: `Case now has ticket #${existing.id}`, ticketId: existing.id };
+        }
+        const ticket = await createTicketForCase(item.caseData);
+        return { applyStatus: 'applied', result: 'created', detail: 'create_ticket', ticketId: ticket.id };
+      }
+
+      case 'no_ticket':
+      case 'held_for_review':
+        await enqueueCaseReview(item.caseData, item.reviewReason ?? 'no_ticket', item.candidates);
+        return { applyStatus: 'applied', result: item.action, detail: `review_queue(${item.reviewReason})`, ticketId: null };
+
+      case 'unchanged':
+      case 'error':
+        return { applyStatus: 'skipped', result: 'skipped', detail: 'Nothing to apply', ticketId: item.ticketId };
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    log.error('Failed to apply item', { caseNo: item.caseNo, err });
+    return { applyStatus: 'failed', result: 'error', detail: message, ticketId: item.ticketId };
+  }
+}
+
+/**
+ * Start applying an approved plan.
+ * The plan is claimed in the database, so only one instance applies it. While applying, the plan
+ * heartbeats every third of CASE_PLAN_LEASE_SECONDS; re-applying a plan whose apply was interrupted
+ * (no heartbeat for that long) picks up its remaining pending items.
+ *
+ * @returns false if the plan is not approved (or interrupted), or is already being applied
+ */
+export async function startCasePlanApply(planId: number): Promise<boolean> {
+  if (applying.has(planId) || !(await markCasePlanApplying(planId, config.casePlanLeaseSeconds))) {
+    return false;
+  }
+
+  applying.add(planId);
+  const heartbeat = setInterval(() => {
+    heartbeatCasePlan(planId).catch(err => log.warn('Failed to record plan heartbeat', { planId, err }));
+  }, (config.casePlanLeaseSeconds * 1000) / 3);
+
+  applyCasePlan(planId)
+    .catch(err => log.error('Applying plan failed', { planId, err }))
+    .finally(() => {
+      clearInterval(heartbeat);
+      applying.delete(planId);
+    });
+  return true;
+}
+
+/**
+ * Apply each pending item of a plan, then mark the plan applied.
+ */
+async function applyCasePlan(planId: number): Promise<void> {
+  const plan = await getCasePlan(planId);
+  if (!plan) {
+    throw new Error(`Plan #${planId} not found`);
+  }
+  const items = await getCasePlanItems(planId, 'pending');
+  const counts: Partial<Record<CasePlanItemApplyStatus, number>> = {};
+
+  log.info(`Applying plan #${planId} (${items.length} pending items, approved by ${plan.reviewedBy})`, { planId });
+
+  for (const [index, item] of items.entries()) {
+    const outcome = await applyPlanItem(item);
+    await markCasePlanItem(item.id, outcome.applyStatus, outcome.detail);
+    counts[outcome.applyStatus] = (counts[outcome.applyStatus] ?? 0) + 1;
+
+    log.info(`[${index + 1}/${items.length}] ${outcome.applyStatus} - ${outcome.detail}`, {
+      planId,
+      caseNo: item.caseNo,
+      ticketId: outcome.ticketId ?? undefined,
+    });
+
+    if (outcome.applyStatus === 'applied' && outcome.ticketId !== null) {
+      await updateCaseThreefoldId(item.caseNo, outcome.ticketId);
+      await resolvePendingCaseReviews(item.caseNo, outcome.ticketId);
+    }
+
+    const record = item.caseData;
+    const history: CaseHistoryInput = {
+      caseNo: item.caseNo,
+      syncLogId: plan.syncLogId,
+      sourceFile: plan.sourceFile,
+      changeType: 'plan',
+      transition: item.transition,
+      oldValues: null,
+      newValues: {
+        opened: record.caseOpened,
+        closed: record.caseClosed,
+        status: determineCaseStatus(record.caseOpened, record.caseClosed),
+      },
+      threefoldTicketId: outcome.ticketId,
+      threefoldAction: outcome.detail,
+      threefoldResult: outcome.result,
+      errorMessage: outcome.applyStatus === 'failed' ? outcome.detail : null,
+    };
+    await recordCaseHistory([history]);
+  }
+
+  await markCasePlanApplied(planId);
+
+  log.info(`Plan #${planId} applied`, {
+    planId,
+    applied: counts.applied ?? 0,
+    skipped: counts.skipped ?? 0,
+    failed: counts.failed ?? 0,
+  });
+}
+
+// ============ Export ============
+
+/**
+ * Quote a CSV value when it contains a delimiter, quote or newline.
+ */
+function csvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' ? value : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const CSV_COLUMNS = [
+  'case_no', 'change_type', 'transition', 'action', 'ticket_id', 'matched_by',
+  'field', 'before', 'after', 'comment', 'step_id', 'review_reason', 'error', 'apply_status', 'apply_result',
+];
+
+/**
+ * Render plan items as CSV - one row per field change (items without field changes get one row).
+ */
+export function formatCasePlanCsv(items: CasePlanItem[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+
+  for (const item of items) {
+    const changes: Array<PlannedFieldChange | null> = item.fieldChanges.length > 0 ? item.fieldChanges : [null];
+    for (const change of changes) {
+      lines.push([
+        item.caseNo,
+        item.changeType,
+        item.transition,
+        item.action,
+        item.ticketId,
+        item.matchedBy,
+        change?.fieldKey,
+        change?.before,
+        change?.after,
+        item.comment,
+        item.stepId,
+        item.reviewReason,
+        item.error,
+        item.applyStatus,
+        item.applyResult,
+      ].map(csvValue).join(','));
+    }
+  }
+
+  return `${lines.join('\r\n')}\r\n`;
+}
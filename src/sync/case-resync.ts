@@ -0,0 +1,141 @@
+import {
+  createSyncLog,
+  completeSyncLog,
+  updateCaseThreefoldId,
+  CaseStateChange,
+} from '../state/tracker.js';
+import { listCases, getStoredCaseRecords, CaseListFilters, StoredCaseRecord } from '../state/cases.js';
+import { resolvePendingCaseReviews } from '../state/review-queue.js';
+import { recordCaseHistory, CaseHistoryInput, CaseHistoryResult } from '../state/case-history.js';
+import { syncCaseChange, CaseSyncOutcome } from './cases-sync.js';
+import { determineCaseTransition } from './case-transitions.js';
+import { createLogger, withLogContext } from '../logger.js';
+
+const log = createLogger('RESYNC');
+
+// Cases per resync request - each one may take several rate-limited Threefold calls
+export const MAX_RESYNC_CASES = 100;
+
+/**
+ * Which cases to re-sync: explicit case numbers, or every stored case matching a filter.
+ */
+export type CaseResyncSelection =
+  | { caseNos: string[] }
+  | { filter: Omit<CaseListFilters, 'limit' | 'offset'> };
+
+export interface CaseResyncOutcome extends CaseSyncOutcome {
+  caseNo: string;
+}
+
+export interface CaseResyncResult {
+  syncLogId: number;
+  // Cases matching the selection (may be more than were re-synced, see MAX_RESYNC_CASES)
+  matched: number;
+  outcomes: CaseResyncOutcome[];
+  counts: Partial<Record<CaseHistoryResult, number>>;
+}
+
+/**
+ * Resolve a selection to stored case numbers (at most MAX_RESYNC_CASES).
+ */
+async function selectCaseNos(selection: CaseResyncSelection): Promise<{ caseNos: string[]; matched: number }> {
+  if ('caseNos' in selection) {
+    const caseNos = [...new Set(selection.caseNos)];
+    return { caseNos: caseNos.slice(0, MAX_RESYNC_CASES), matched: caseNos.length };
+  }
+
+  const { items, total } = await listCases({ ...selection.filter, limit: MAX_RESYNC_CASES });
+  return { caseNos: items.map(c => c.caseNo), matched: total };
+}
+
+/**
+ * Force a re-sync of selected cases, ignoring the content hash.
+ *
+ * Runs the same ticket lookup + diff + update path as processCasesSync (see syncCaseChange)
+ * against each case's stored CSV row. Useful after a ticket's cc_case_number is fixed in
+ * Threefold, when the case itself hasn't changed and diffCases would never pick it up.
+ * Stored case state is left alone apart from caching newly linked ticket IDs.
+ */
+export async function resyncCases(selection: CaseResyncSelection): Promise<CaseResyncResult> {
+  const { caseNos, matched } = await selectCaseNos(selection);
+  const stored = new Map((await getStoredCaseRecords(caseNos)).map(s => [s.record.caseNo, s]));
+  const syncId = await createSyncLog('case_resync');
+
+  // Tag every log line from this run (and the Threefold calls it makes) with the sync log ID
+  return withLogContext({ syncLogId: syncId }, () => resyncSelectedCases(caseNos, matched, stored, syncId));
+}
+
+/**
+ * Re-sync the selected cases under one sync log (see resyncCases).
+ */
+async function resyncSelectedCases(
+  caseNos: string[],
+  matched: number,
+  stored: Map<string, StoredCaseRecord>,
+  syncId: number
+): Promise<CaseResyncResult> {
+  log.info(`Re-syncing ${caseNos.length} of ${matched} selected cases`);
+
+  const outcomes: CaseResyncOutcome[] = [];
+  const history: CaseHistoryInput[] = [];
+
+  for (const [index, caseNo] of caseNos.entries()) {
+    const state = stored.get(caseNo);
+    if (!state) {
+      log.info('Case has no stored CSV row, skipping', { caseNo });
+      outcomes.push({ caseNo, result: 'skipped', ticketId: null, actions: [], addressMatched: false, error: 'Case not found' });
+      continue;
+    }
+
+    const { record } = state;
+    const values = { opened: record.caseOpened, closed: record.caseClosed, status: state.caseStatus };
+    const change: CaseStateChange = {
+      caseNo,
+      record,
+      previousHash: state.contentHash,
+      newHash: state.contentHash ?? '',
+      isNew: false,
+      previousOpened: record.caseOpened,
+      previousClosed: record.caseClosed,
+      previousStatus: state.caseStatus,
+      threefoldTicketId: state.threefoldTicketId,
+    };
+
+    // Nothing changed since the last import, so this is always an 'updated' transition (no comment or step change)
+    const transition = determineCaseTransition(record, values);
+    const outcome = await syncCaseChange(change, transition, `[RESYNC ${index + 1}/${caseNos.length}]`);
+    outcomes.push({ caseNo, ...outcome });
+
+    if (outcome.ticketId !== null && outcome.ticketId !== state.threefoldTicketId) {
+      await updateCaseThreefoldId(caseNo, outcome.ticketId);
+      await resolvePendingCaseReviews(caseNo, outcome.ticketId);
+    }
+
+    history.push({
+      caseNo,
+      syncLogId: syncId,
+      sourceFile: null,
+      changeType: 'resync',
+      transition: transition.type,
+      oldValues: values,
+      newValues: values,
+      threefoldTicketId: outcome.ticketId ?? state.threefoldTicketId,
+      threefoldAction: outcome.actions.length > 0 ? outcome.actions.join('; ') : null,
+      threefoldResult: outcome.result,
+      errorMessage: outcome.error ?? null,
+    });
+  }
+
+  await recordCaseHistory(history);
+
+  const counts: Partial<Record<CaseHistoryResult, number>> = {};
+  for (const outcome of outcomes) {
+    counts[outcome.result] = (counts[outcome.result] ?? 0) + 1;
+  }
+  const changed = (counts.updated ?? 0) + (counts.queued ?? 0) + (counts.created ?? 0);
+  await completeSyncLog(syncId, caseNos.length, changed, counts.error ?? 0);
+
+  log.info(`Done: ${caseNos.length} cases`, { counts });
+
+  return { syncLogId: syncId, matched, outcomes, counts };
+}
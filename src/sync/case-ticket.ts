@@ -0,0 +1,93 @@
+import { config } from '../config.js';
+import { CodeEnforcementCaseRecord } from '../parsers/code-enforcement-cases.js';
+import { getCaseThreefoldId, determineCaseStatus } from '../state/tracker.js';
+import { mapCaseFields } from '../mapping/case-field-mapping.js';
+import {
+  findTicketByCaseNumber,
+  getTicketById,
+  createTicket,
+  TicketWithCustomFields,
+} from './threefold.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('THREEFOLD');
+
+/**
+ * Find the Threefold ticket for a code enforcement case.
+ *
+ * Uses the cached threefold_ticket_id when available (skips the search API call),
+ * falling back to a cc_case_number custom field search when the cache is empty or stale.
+ *
+ * @param cachedTicketId - Ticket ID already known to the caller; looked up in case_state when undefined
+ */
+export async function findTicketForCase(
+  caseNo: string,
+  cachedTicketId?: number | null
+): Promise<TicketWithCustomFields | null> {
+  const ticketId = cachedTicketId === undefined ? await getCaseThreefoldId(caseNo) : cachedTicketId;
+
+  if (ticketId) {
+    const ticket = await getTicketById(ticketId);
+    const linkedCaseNo = ticket?.customFields.cc_case_number;
+    if (ticket && (!linkedCaseNo || linkedCaseNo === caseNo)) {
+      return ticket;
+    }
+    // Cached ID no longer valid (deleted, or cc_case_number corrected to another case), try searching
+    log.info(`Cached ticket #${ticketId} for case ${caseNo} ${ticket ? `now has case ${linkedCaseNo}` : 'not found'}, searching by case number`);
+  }
+
+  // No (valid) cached ID - search by cc_case_number custom field
+  return findTicketByCaseNumber(caseNo);
+}
+
+/**
+ * Get the configured ticket type for a case, based on its case number prefix (CE, CC, ...).
+ */
+export function getTicketTypeForCase(caseNo: string): number | null {
+  const prefix = caseNo.substring(0, 2).toUpperCase();
+  return config.caseTicketTypeIds[prefix] ?? null;
+}
+
+/**
+ * Whether a case with no matching ticket should get a new ticket created for it.
+ */
+export function shouldCreateTicketForCase(record: CodeEnforcementCaseRecord): boolean {
+  if (!config.caseTicketCreationEnabled) {
+    return false;
+  }
+  if (!config.caseTicketCreationIncludeClosed && determineCaseStatus(record.caseOpened, record.caseClosed) === 'closed') {
+    return false;
+  }
+  return getTicketTypeForCase(record.caseNo) !== null;
+}
+
+/**
+ * Create a Threefold ticket for a case that has no matching ticket.
+ * The ticket is stamped with cc_case_number so later syncs find it by search.
+ */
+export async function createTicketForCase(record: CodeEnforcementCaseRecord): Promise<TicketWithCustomFields> {
+  const ticketTypeId = getTicketTypeForCase(record.caseNo);
+  if (ticketTypeId === null) {
+    throw new Error(`No ticket type configured for case prefix of ${record.caseNo}`);
+  }
+
+  const subject = record.caseSubType || record.caseType || 'Code Enforcement';
+  const description = [
+    `Code enforcement case ${record.caseNo} imported from TrakIT.`,
+    `Type: ${record.caseType || 'N/A'}`,
+    `Subtype: ${record.caseSubType || 'N/A'}`,
+    `Opened: ${record.caseOpened ?? 'N/A'}`,
+    `Closed: ${record.caseClosed ?? 'N/A'}`,
+  ].join('\n');
+
+  return createTicket({
+    address: record.siteAddress,
+    title: `${record.caseNo} - ${subject}`,
+    description,
+    ticketTypeId,
+    customFields: {
+      ...mapCaseFields(record.rawData),
+      cc_case_number: record.caseNo,
+    },
+  });
+}
@@ -0,0 +1,87 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { determineCaseTransition } from './case-transitions.js';
+import { CodeEnforcementCaseRecord } from '../parsers/code-enforcement-cases.js';
+
+function caseRecord(caseOpened: string | null, caseClosed: string | null): CodeEnforcementCaseRecord {
+  return {
+    caseNo: 'CE25-0101',
+    caseOpened,
+    caseClosed,
+    caseType: 'CODE ENFORCEMENT',
+    caseSubType: 'MULTIPLE VIOLATIONS',
+    siteAddress: '19141 BOX CANYON RD, CORONA, CA 92881',
+    rawData: {},
+  };
+}
+
+describe('determineCaseTransition', () => {
+  it('treats a new open case as opened', () => {
+    const transition = determineCaseTransition(caseRecord('2025-01-02', null), null);
+    assert.equal(transition.type, 'opened');
+    assert.equal(transition.previousOpened, null);
+    assert.equal(transition.previousClosed, null);
+  });
+
+  it('treats a new case that is already closed as closed', () => {
+    assert.equal(determineCaseTransition(caseRecord('2025-01-02', '2025-02-03'), null).type, 'closed');
+  });
+
+  it('detects open → closed', () => {
+    const transition = determineCaseTransition(caseRecord('2025-01-02', '2025-02-03'), {
+      opened: '2025-01-02',
+      closed: null,
+      status: 'open',
+    });
+    assert.equal(transition.type, 'closed');
+    assert.equal(transition.closed, '2025-02-03');
+  });
+
+  it('detects closed → open as reopened', () => {
+    const transition = determineCaseTransition(caseRecord('2025-01-02', null), {
+      opened: '2025-01-02',
+      closed: '2025-02-03',
+      status: 'closed',
+    });
+    assert.equal(transition.type, 'reopened');
+    assert.equal(transition.previousClosed, '2025-02-03');
+  });
+
+  it('detects a corrected opened date on an open case', () => {
+    const transition = determineCaseTransition(caseRecord('2025-01-03', null), {
+      opened: '2025-01-02',
+      closed: null,
+      status: 'open',
+    });
+    assert.equal(transition.type, 'dates_corrected');
+    assert.equal(transition.previousOpened, '2025-01-02');
+    assert.equal(transition.opened, '2025-01-03');
+  });
+
+  it('detects a corrected closed date on a closed case', () => {
+    const transition = determineCaseTransition(caseRecord('2025-01-02', '2025-02-04'), {
+      opened: '2025-01-02',
+      closed: '2025-02-03',
+      status: 'closed',
+    });
+    assert.equal(transition.type, 'dates_corrected');
+  });
+
+  it('reports updated when the dates and status are unchanged', () => {
+    const transition = determineCaseTransition(caseRecord('2025-01-02', null), {
+      opened: '2025-01-02',
+      closed: null,
+      status: 'open',
+    });
+    assert.equal(transition.type, 'updated');
+  });
+
+  it('treats a previous state without a status as open', () => {
+    const transition = determineCaseTransition(caseRecord('2025-01-02', '2025-02-03'), {
+      opened: '2025-01-02',
+      closed: null,
+      status: null,
+    });
+    assert.equal(transition.type, 'closed');
+  });
+});
@@ -0,0 +1,97 @@
+import { config } from '../config.js';
+import { CodeEnforcementCaseRecord } from '../parsers/code-enforcement-cases.js';
+import { determineCaseStatus, CaseStateChange } from '../state/tracker.js';
+import { renderCaseComment } from '../mapping/case-comments.js';
+
+/**
+ * What happened to a case between two imports.
+ * - opened: first time seen, open
+ * - closed: first time seen closed, or open → closed
+ * - reopened: closed → open (CLOSED cleared in TrakIT)
+ * - dates_corrected: still open/closed, but the opened or closed date changed
+ * - updated: only other mapped fields changed
+ */
+export type CaseTransitionType = 'opened' | 'closed' | 'reopened' | 'dates_corrected' | 'updated';
+
+export interface CaseTransition {
+  type: CaseTransitionType;
+  caseNo: string;
+  previousOpened: string | null;
+  previousClosed: string | null;
+  opened: string | null;
+  closed: string | null;
+}
+
+/**
+ * Last known state of a case (null for a case seen for the first time).
+ */
+export interface PreviousCaseState {
+  opened: string | null;
+  closed: string | null;
+  status: string | null;
+}
+
+/**
+ * Work out the transition from a case's previous state to its current record.
+ */
+export function determineCaseTransition(
+  record: CodeEnforcementCaseRecord,
+  previous: PreviousCaseState | null
+): CaseTransition {
+  const status = determineCaseStatus(record.caseOpened, record.caseClosed);
+  const transition = {
+    caseNo: record.caseNo,
+    previousOpened: previous?.opened ?? null,
+    previousClosed: previous?.closed ?? null,
+    opened: record.caseOpened,
+    closed: record.caseClosed,
+  };
+
+  if (!previous) {
+    return { ...transition, type: status === 'closed' ? 'closed' : 'opened' };
+  }
+  if (previous.status !== 'closed' && status === 'closed') {
+    return { ...transition, type: 'closed' };
+  }
+  if (previous.status === 'closed' && status === 'open') {
+    return { ...transition, type: 'reopened' };
+  }
+  if (previous.opened !== record.caseOpened || previous.closed !== record.caseClosed) {
+    return { ...transition, type: 'dates_corrected' };
+  }
+  return { ...transition, type: 'updated' };
+}
+
+/**
+ * Transition for a change detected by diffCases.
+ */
+export function transitionForChange(change: CaseStateChange): CaseTransition {
+  return determineCaseTransition(
+    change.record,
+    change.isNew
+      ? null
+      : { opened: change.previousOpened, closed: change.previousClosed, status: change.previousStatus }
+  );
+}
+
+/**
+ * Ticket comment for a transition (null for 'updated', or when the event's comment is disabled).
+ * Text comes from the templates in src/mapping/case-comments.json.
+ */
+export function getTransitionComment(record: CodeEnforcementCaseRecord, transition: CaseTransition): string | null {
+  return transition.type === 'updated' ? null : renderCaseComment(transition.type, record, transition);
+}
+
+/**
+ * Ticket comment for a case linked to the ticket for the first time (null when disabled).
+ */
+export function getFirstLinkedComment(record: CodeEnforcementCaseRecord, transition: CaseTransition): string | null {
+  return renderCaseComment('first_linked', record, transition);
+}
+
+/**
+ * Workflow step to move the ticket to for a transition (null = leave the step alone).
+ */
+export function getTransitionStepId(transition: CaseTransition): number | null {
+  return config.caseTransitionStepIds[transition.type] ?? null;
+}
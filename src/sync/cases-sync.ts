@@ -9,13 +9,355 @@ import {
   updateCaseThreefoldId,
   CaseStateChange,
 } from '../state/tracker.js';
+import { updateTicketCustomFields, TicketWithCustomFields } from './threefold.js';
+import { mapCaseFields, diffCaseFields } from '../mapping/case-field-mapping.js';
+import { sendOrQueueTicketMutation } from './ticket-mutations.js';
+import { findTicketForCase, shouldCreateTicketForCase, createTicketForCase } from './case-ticket.js';
+import { matchCaseByAddress } from '../matching/ticket-matcher.js';
+import { enqueueCaseReview, resolvePendingCaseReviews } from '../state/review-queue.js';
+import { detectMissingCases } from './missing-cases.js';
+import { planCaseChange, describePlanItem } from './case-plans.js';
+import { createCasePlan, CasePlanItemInput } from '../state/case-plans.js';
+import { caseChangesDetected, caseResults } from '../metrics.js';
+import { createLogger, withLogContext } from '../logger.js';
+import { recordCaseHistory, CaseHistoryInput, CaseHistoryResult } from '../state/case-history.js';
 import {
-  findTicketByCaseNumber,
-  getTicketById,
-  updateTicketCustomFields,
-  addTicketComment,
-  CodeComplianceCustomFields,
-} from './threefold.js';
+  transitionForChange,
+  getTransitionComment,
+  getFirstLinkedComment,
+  getTransitionStepId,
+  CaseTransition,
+  CaseTransitionType,
+} from './case-transitions.js';
+
+const log = createLogger('CASE SYNC');
+
+/**
+ * Result of applying a case to its ticket.
+ */
+export type CaseTicketUpdateResult = 'updated' | 'unchanged' | 'queued';
+
+/**
+ * Result of applying a case to its ticket, with the Threefold actions taken
+ * (e.g., "custom_fields(case_close_date,last_case_status)", "comment", "step:41").
+ * Actions that failed and went to the outbox are suffixed " (queued)".
+ */
+export interface CaseTicketUpdate {
+  result: CaseTicketUpdateResult;
+  actions: string[];
+}
+
+/**
+ * Push a case's mapped custom fields to its Threefold ticket.
+ *
+ * Compares the ticket's current custom field values against the values mapped from the
+ * case row (src/mapping/case-fields.json) and only makes an API call if there's an actual diff.
+ * When there is, the transition's comment is posted and the ticket is moved to the transition's
+ * workflow step (if configured) - a ticket already up to date gets neither, so re-runs are quiet.
+ * A case linked to the ticket just now (address match or review resolution) also gets the
+ * first_linked comment, even when the fields are already up to date.
+ * Failed API calls are stored in the outbox for retry ('queued') rather than thrown.
+ *
+ * @param logPrefix - Prefix for log lines (e.g., progress percentage)
+ * @param changeType - Label for log lines (e.g., NEW, UPDATED)
+ * @param transition - What happened to the case since the last import
+ * @param firstLinked - The case was just linked to this ticket (address match or review resolution)
+ */
+export async function applyCaseToTicket(
+  record: CodeEnforcementCaseRecord,
+  ticket: TicketWithCustomFields,
+  logPrefix: string,
+  changeType: string,
+  transition: CaseTransition,
+  firstLinked = false
+): Promise<CaseTicketUpdate> {
+  // Compare against Threefold's current custom field values
+  // This is the key diff check - only update if values actually differ
+  const { changes, payload } = diffCaseFields(mapCaseFields(record.rawData), ticket.customFields);
+  const linkComment = firstLinked ? getFirstLinkedComment(record, transition) : null;
+
+  if (changes.length === 0 && !linkComment) {
+    log.info(`${logPrefix} No diff for ${changeType} case - Threefold already up to date`, { caseNo: record.caseNo, ticketId: ticket.id });
+    return { result: 'unchanged', actions: [] };
+  }
+
+  const actions: string[] = [];
+  let queued = false;
+
+  if (changes.length > 0) {
+    // Log what we're updating
+    const updateSummary = changes.map(c => `${c.fieldKey}: ${c.current ?? 'null'} → ${c.wanted ?? 'null'}`);
+    log.info(`${logPrefix} Updating ${changeType} case (${transition.type}): ${updateSummary.join(', ')}`, {
+      caseNo: record.caseNo,
+      ticketId: ticket.id,
+    });
+
+    // Update ticket custom fields in Threefold
+    const fieldsResult = await sendOrQueueTicketMutation({
+      action: 'custom_fields',
+      ticketId: ticket.id,
+      ticketTypeId: ticket.ticketTypeId,
+      caseNo: record.caseNo,
+      payload,
+    });
+    actions.push(`custom_fields(${changes.map(c => c.fieldKey).join(',')})${fieldsResult === 'queued' ? ' (queued)' : ''}`);
+    queued = fieldsResult === 'queued';
+  } else {
+    log.info(`${logPrefix} Linked ${changeType} case - fields already up to date`, { caseNo: record.caseNo, ticketId: ticket.id });
+  }
+
+  // Announce a first link, and explain the transition (opened, closed, reopened, dates corrected)
+  const comment = [linkComment, changes.length > 0 ? getTransitionComment(record, transition) : null]
+    .filter(Boolean)
+    .join('\n\n');
+  if (comment) {
+    const commentResult = await sendOrQueueTicketMutation({
+      action: 'comment',
+      ticketId: ticket.id,
+      caseNo: record.caseNo,
+      payload: { content: comment },
+    });
+    actions.push(`comment${commentResult === 'queued' ? ' (queued)' : ''}`);
+    queued = queued || commentResult === 'queued';
+  }
+
+  // Move the ticket to the transition's workflow step (e.g., back to an active step on reopen)
+  const stepId = changes.length > 0 ? getTransitionStepId(transition) : null;
+  if (stepId !== null) {
+    const stepResult = await sendOrQueueTicketMutation({
+      action: 'change_step',
+      ticketId: ticket.id,
+      caseNo: record.caseNo,
+      payload: { stepId },
+    });
+    actions.push(`step:${stepId}${stepResult === 'queued' ? ' (queued)' : ''}`);
+    queued = queued || stepResult === 'queued';
+  }
+
+  return { result: queued ? 'queued' : 'updated', actions };
+}
+
+/**
+ * Outcome of syncing one case to Threefold.
+ */
+export interface CaseSyncOutcome {
+  result: CaseHistoryResult;
+  // Ticket the case is linked to afterwards (found, matched or created), null if none
+  ticketId: number | null;
+  actions: string[];
+  // The ticket was found by address matching (and had cc_case_number stamped)
+  addressMatched: boolean;
+  error?: string;
+}
+
+/**
+ * Sync one changed case to Threefold.
+ *
+ * Finds the case's ticket (cached ID, then cc_case_number search, then address matching).
+ * With no ticket, creates one (CASE_TICKET_CREATION_ENABLED) or queues the case for review;
+ * otherwise pushes the mapped custom fields via applyCaseToTicket. Errors are logged and
+ * returned as result 'error' rather than thrown.
+ *
+ * @param logPrefix - Prefix for log lines (e.g., progress percentage)
+ */
+export function syncCaseChange(
+  change: CaseStateChange,
+  transition: CaseTransition,
+  logPrefix: string
+): Promise<CaseSyncOutcome> {
+  // Tag every log line for this case, including Threefold client and outbox lines
+  return withLogContext({ caseNo: change.caseNo }, () => syncCaseChangeInContext(change, transition, logPrefix));
+}
+
+async function syncCaseChangeInContext(
+  change: CaseStateChange,
+  transition: CaseTransition,
+  logPrefix: string
+): Promise<CaseSyncOutcome> {
+  const changeType = change.isNew ? 'NEW' : 'UPDATED';
+  const outcome: CaseSyncOutcome = { result: 'unchanged', ticketId: null, actions: [], addressMatched: false };
+
+  try {
+    // Check if API updates are enabled
+    if (!config.caseUpdatesEnabled) {
+      log.info(`${logPrefix} DRY RUN: Would process ${changeType} case`);
+      return { ...outcome, result: 'dry_run' };
+    }
+
+    // Find ticket - use cached ID if available, otherwise search by custom field
+    let ticket = await findTicketForCase(change.caseNo, change.threefoldTicketId);
+
+    // Fall back to address matching for tickets created before a case number was assigned
+    if (!ticket && config.addressMatchingEnabled) {
+      const match = await matchCaseByAddress(change.record);
+
+      if (match.status === 'matched') {
+        log.info(`${logPrefix} Matched ${changeType} case by address (score ${match.candidate.score})`, { ticketId: match.ticket.id });
+        await updateTicketCustomFields(match.ticket.id, { cc_case_number: change.caseNo }, match.ticket.ticketTypeId);
+        outcome.actions.push(`address_match(score ${match.candidate.score})`);
+        outcome.addressMatched = true;
+        ticket = {
+          ...match.ticket,
+          customFields: { ...match.ticket.customFields, cc_case_number: change.caseNo },
+        };
+      } else if (match.status === 'held') {
+        const summary = match.candidates.map(c => `#${c.ticketId} (${c.score})`).join(', ');
+        log.info(`${logPrefix} Held ${changeType} case - ${match.reason} address match: ${summary}`);
+        await enqueueCaseReview(change.record, match.reason, match.candidates);
+        return { ...outcome, result: 'held_for_review', actions: [`review_queue(${match.reason})`] };
+      }
+    }
+
+    if (!ticket) {
+      if (shouldCreateTicketForCase(change.record)) {
+        const newTicket = await createTicketForCase(change.record);
+        log.info(`${logPrefix} Created ticket for ${changeType} case`, { ticketId: newTicket.id });
+        return { ...outcome, result: 'created', ticketId: newTicket.id, actions: ['create_ticket'] };
+      }
+
+      log.info(`${logPrefix} No ticket found for ${changeType} case - queued for review`);
+      await enqueueCaseReview(change.record, 'no_ticket');
+      return { ...outcome, result: 'no_ticket', actions: ['review_queue(no_ticket)'] };
+    }
+
+    const { result, actions } = await applyCaseToTicket(
+      change.record,
+      ticket,
+      logPrefix,
+      changeType,
+      transition,
+      // Only a link made just now counts - a ticket found by cached ID or cc_case_number was linked earlier
+      outcome.addressMatched
+    );
+    outcome.actions.push(...actions);
+    return { ...outcome, result, ticketId: ticket.id };
+  } catch (err) {
+    log.error(`${logPrefix} Error processing ${changeType} case`, { err });
+    return { ...outcome, result: 'error', error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * Options for a cases sync run.
+ */
+export interface CasesSyncOptions {
+  // Records are the complete TrakIT export (default: true).
+  // Removal detection only runs for full exports - a partial file would mark every other case missing.
+  fullExport?: boolean;
+  // Name of the CSV the records came from (recorded in case history)
+  sourceFile?: string;
+  // Only report what changed since the last import - no Threefold calls and nothing saved
+  dryRun?: boolean;
+}
+
+/**
+ * A changed case in a sync summary.
+ */
+export interface CasesSyncChange {
+  caseNo: string;
+  changeType: 'new' | 'updated';
+  transition: CaseTransitionType;
+  previousOpened: string | null;
+  previousClosed: string | null;
+  opened: string | null;
+  closed: string | null;
+  // Threefold outcome (absent for dry runs)
+  result?: CaseHistoryResult;
+  ticketId?: number | null;
+  actions?: string[];
+  error?: string;
+}
+
+/**
+ * What a cases sync run did (or, for a dry run, would look at).
+ */
+export interface CasesSyncSummary {
+  syncLogId: number | null;
+  // Plan saved when CASE_UPDATES_ENABLED=false (see /admin/plans)
+  planId: number | null;
+  dryRun: boolean;
+  totalRecords: number;
+  newCases: number;
+  updatedCases: number;
+  updated: number;
+  addressMatched: number;
+  held: number;
+  created: number;
+  notFound: number;
+  unchanged: number;
+  queued: number;
+  errors: number;
+  transitions: Record<CaseTransitionType, number>;
+  changes: CasesSyncChange[];
+}
+
+/**
+ * Summary entry for a change, before any Threefold outcome.
+ */
+function toSummaryChange(change: CaseStateChange, transition: CaseTransition): CasesSyncChange {
+  return {
+    caseNo: change.caseNo,
+    changeType: change.isNew ? 'new' : 'updated',
+    transition: transition.type,
+    previousOpened: change.previousOpened,
+    previousClosed: change.previousClosed,
+    opened: change.record.caseOpened,
+    closed: change.record.caseClosed,
+  };
+}
+
+/**
+ * Run removal detection after a full export, if enabled.
+ */
+async function runMissingCaseDetection(
+  records: CodeEnforcementCaseRecord[],
+  options: CasesSyncOptions,
+  syncId: number
+): Promise<void> {
+  if (!config.caseMissingDetectionEnabled || options.fullExport === false) {
+    return;
+  }
+
+  const result = await detectMissingCases(records, { syncLogId: syncId, sourceFile: options.sourceFile ?? null });
+  if (!result.skipped) {
+    log.info('Removal detection complete', {
+      markedMissing: result.markedMissing,
+      reappeared: result.reappeared,
+      ticketsFlagged: result.ticketsFlagged,
+    });
+  }
+}
+
+/**
+ * Build the case history entry for a change detected by diffCases.
+ */
+function toHistoryEntry(
+  change: CaseStateChange,
+  transition: CaseTransition,
+  syncId: number,
+  options: CasesSyncOptions,
+  outcome: CaseSyncOutcome
+): CaseHistoryInput {
+  return {
+    caseNo: change.caseNo,
+    syncLogId: syncId,
+    sourceFile: options.sourceFile ?? null,
+    changeType: change.isNew ? 'new' : 'updated',
+    transition: transition.type,
+    oldValues: change.isNew
+      ? null
+      : { opened: change.previousOpened, closed: change.previousClosed, status: change.previousStatus },
+    newValues: {
+      opened: change.record.caseOpened,
+      closed: change.record.caseClosed,
+      status: determineCaseStatus(change.record.caseOpened, change.record.caseClosed),
+    },
+    threefoldTicketId: outcome.ticketId ?? change.threefoldTicketId,
+    threefoldAction: outcome.actions.length > 0 ? outcome.actions.join('; ') : null,
+    threefoldResult: outcome.result,
+    errorMessage: outcome.error ?? null,
+  };
+}
 
 /**
  * Process Code Enforcement Cases sync.
@@ -23,182 +365,265 @@ import {
  * Logic:
  * 1. Compare incoming CSV against local case_state table to find changes
  * 2. For each changed case (new or updated), find the matching ticket by cc_case_number
- * 3. Compare ticket's current custom fields against what we want to set
+ *    - on a miss, fall back to address matching against open tickets (confident matches get
+ *      cc_case_number stamped, uncertain ones are held)
+ *    - when CASE_TICKET_CREATION_ENABLED, create a ticket for cases with no match at all
+ * 3. Compare ticket's current custom fields against the values mapped from the case row
  * 4. Only make API call if there's an actual diff
  * 5. Save all records to local state for next sync comparison
+ * 6. For full exports, mark cases that keep being absent as missing (see detectMissingCases)
+ * 7. Record every change and the Threefold action taken in case_state_history
+ *
+ * Custom fields updated are declared in src/mapping/case-fields.json (by default
+ * cc_case_opened, case_close_date and last_case_status).
+ *
+ * When CASE_UPDATES_ENABLED=false, steps 2-4 only do the read-only lookups and field comparison,
+ * and the result is saved as a plan that can be approved and applied (see case-plans.ts).
+ * With options.dryRun, only step 1 runs and nothing is saved.
  *
- * Custom fields updated:
- * - cc_case_opened: case opened date (YYYY-MM-DD)
- * - case_close_date: case closed date (YYYY-MM-DD or null)
- * - last_case_status: 'open' or 'closed' based on dates
+ * @returns Counts per outcome and every changed case
  */
-export async function processCasesSync(records: CodeEnforcementCaseRecord[]): Promise<void> {
-  const syncId = await createSyncLog('cases');
-  const startTime = Date.now();
-
-  console.log('');
-  console.log('='.repeat(60));
-  console.log(`[CASE SYNC] Starting sync for ${records.length} records`);
-  console.log('='.repeat(60));
+export async function processCasesSync(
+  records: CodeEnforcementCaseRecord[],
+  options: CasesSyncOptions = {}
+): Promise<CasesSyncSummary> {
+  const summary: CasesSyncSummary = {
+    syncLogId: null,
+    planId: null,
+    dryRun: options.dryRun === true,
+    totalRecords: records.length,
+    newCases: 0,
+    updatedCases: 0,
+    updated: 0,
+    addressMatched: 0,
+    held: 0,
+    created: 0,
+    notFound: 0,
+    unchanged: 0,
+    queued: 0,
+    errors: 0,
+    transitions: { opened: 0, closed: 0, reopened: 0, dates_corrected: 0, updated: 0 },
+    changes: [],
+  };
 
-  try {
-    // Get changes by comparing against stored state
-    // This returns cases that are either:
-    // - New (not in our local DB yet)
-    // - Changed (dates differ from what we last saw)
+  if (options.dryRun) {
     const changes = await diffCases(records);
-
-    console.log(`[CASE SYNC] Found ${changes.length} changes out of ${records.length} records`);
-
-    if (changes.length === 0) {
-      console.log('[CASE SYNC] No changes detected, skipping API updates');
-      // Still update last_seen_at timestamps
-      await upsertCaseState(records);
-      await completeSyncLog(syncId, records.length, 0, 0);
-      return;
+    for (const change of changes) {
+      const transition = transitionForChange(change);
+      summary.transitions[transition.type]++;
+      summary.changes.push(toSummaryChange(change, transition));
     }
+    summary.newCases = changes.filter(c => c.isNew).length;
+    summary.updatedCases = changes.length - summary.newCases;
+    log.info(`DRY RUN: ${changes.length} changes out of ${records.length} records`, {
+      newCases: summary.newCases,
+      updatedCases: summary.updatedCases,
+    });
+    return summary;
+  }
 
-    // Log changes summary
-    const newCases = changes.filter(c => c.isNew);
-    const updatedCases = changes.filter(c => !c.isNew);
-    console.log(`[CASE SYNC] New cases (first time seen): ${newCases.length}`);
-    console.log(`[CASE SYNC] Updated cases (dates changed): ${updatedCases.length}`);
+  // Partial runs (CLI --only/--limit) are logged separately so they don't look like a shrunken export
+  const syncId = await createSyncLog(options.fullExport === false ? 'cases_partial' : 'cases');
+  const startTime = Date.now();
+  summary.syncLogId = syncId;
 
-    let processed = 0;
-    let updated = 0;
-    let notFound = 0;
-    let noChanges = 0;
-    let errors = 0;
+  // Tag every log line from this run (and the Threefold calls it makes) with the sync log ID
+  return withLogContext({ syncLogId: syncId }, async () => {
+    log.info(`Starting sync for ${records.length} records`);
 
-    // Process each change - both new and updated cases
-    for (const change of changes) {
-      processed++;
-      const progressPct = Math.round((processed / changes.length) * 100);
-      const changeType = change.isNew ? 'NEW' : 'UPDATED';
+    try {
+      // Get changes by comparing against stored state
+      // This returns cases that are either:
+      // - New (not in our local DB yet)
+      // - Changed (dates differ from what we last saw)
+      const changes = await diffCases(records);
 
-      try {
-        // Check if API updates are enabled
-        if (!config.caseUpdatesEnabled) {
-          console.log(`[CASE SYNC] [${progressPct}%] DRY RUN: Would process ${changeType} case ${change.caseNo}`);
-          continue;
-        }
+      log.info(`Found ${changes.length} changes out of ${records.length} records`);
 
-        // Find ticket - use cached ID if available, otherwise search by custom field
-        let ticket;
-        if (change.threefoldTicketId) {
-          // Use cached ticket ID - skip search API call
-          ticket = await getTicketById(change.threefoldTicketId);
-          if (!ticket) {
-            // Cached ID no longer valid, try searching
-            console.log(`[CASE SYNC] [${progressPct}%] Cached ticket #${change.threefoldTicketId} not found, searching by case number`);
-            ticket = await findTicketByCaseNumber(change.caseNo);
-          }
-        } else {
-          // No cached ID - search by cc_case_number custom field
-          ticket = await findTicketByCaseNumber(change.caseNo);
-        }
+      if (changes.length === 0) {
+        log.info('No changes detected, skipping API updates');
+        // Still update last_seen_at timestamps
+        await upsertCaseState(records);
+        await runMissingCaseDetection(records, options, syncId);
+        await completeSyncLog(syncId, records.length, 0, 0);
+        return summary;
+      }
 
-        if (!ticket) {
-          console.log(`[CASE SYNC] [${progressPct}%] No ticket found for ${changeType} case ${change.caseNo}`);
-          notFound++;
-          continue;
-        }
+      // Log changes summary
+      const newCases = changes.filter(c => c.isNew);
+      const updatedCases = changes.filter(c => !c.isNew);
+      // New = first time seen, updated = dates changed
+      log.info('Changes by type', { newCases: newCases.length, updatedCases: updatedCases.length });
+      caseChangesDetected.inc({ change_type: 'new' }, newCases.length);
+      caseChangesDetected.inc({ change_type: 'updated' }, updatedCases.length);
 
-        // Compare against Threefold's current custom field values
-        // This is the key diff check - only update if values actually differ
-        const existingFields = ticket.customFields as Partial<CodeComplianceCustomFields>;
-        const newStatus = determineCaseStatus(change.record.caseOpened, change.record.caseClosed);
+      let processed = 0;
+      let updated = 0;
+      let notFound = 0;
+      let created = 0;
+      let addressMatched = 0;
+      let held = 0;
+      let noChanges = 0;
+      let queued = 0;
+      let errors = 0;
+      const transitionCounts: Record<CaseTransitionType, number> = {
+        opened: 0,
+        closed: 0,
+        reopened: 0,
+        dates_corrected: 0,
+        updated: 0,
+      };
 
-        // Normalize comparisons (handle null vs undefined vs empty string)
-        const currentOpened = existingFields.cc_case_opened || null;
-        const currentClosed = existingFields.case_close_date || null;
-        const currentStatus = existingFields.last_case_status || null;
+      // Cases whose processing failed before any ticket mutation could be queued.
+      // Their state is not saved, so the next sync sees them as changed and tries again.
+      const failedCaseNos = new Set<string>();
 
-        const wantOpened = change.record.caseOpened || null;
-        const wantClosed = change.record.caseClosed || null;
-        const wantStatus = newStatus;
+      // Ticket IDs to cache - applied after upsertCaseState so first-seen cases have a row to update
+      const linkedTickets = new Map<string, number>();
 
-        const hasOpenedChange = currentOpened !== wantOpened;
-        const hasClosedChange = currentClosed !== wantClosed;
-        const hasStatusChange = currentStatus !== wantStatus;
+      // Case history entries - one per change, recorded after the loop
+      const history: CaseHistoryInput[] = [];
 
-        if (!hasOpenedChange && !hasClosedChange && !hasStatusChange) {
-          console.log(`[CASE SYNC] [${progressPct}%] No diff for ${changeType} case ${change.caseNo} (ticket #${ticket.id}) - Threefold already up to date`);
-          // Cache the ticket ID for future reference
-          await updateCaseThreefoldId(change.caseNo, ticket.id);
-          noChanges++;
-          continue;
-        }
+      // Dry run (CASE_UPDATES_ENABLED=false) - plan items, saved as a plan after the loop
+      const planItems: CasePlanItemInput[] = [];
 
-        // Build update payload - only include fields that changed
-        const updateFields: CodeComplianceCustomFields = {};
+      // Process each change - both new and updated cases
+      for (const change of changes) {
+        processed++;
+        const progressPct = Math.round((processed / changes.length) * 100);
+        const transition = transitionForChange(change);
 
-        if (hasOpenedChange && wantOpened) {
-          updateFields.cc_case_opened = wantOpened;
-        }
+        if (!config.caseUpdatesEnabled) {
+          const item = await withLogContext({ caseNo: change.caseNo }, () => planCaseChange(change, transition));
+          planItems.push(item);
+          log.info(`[${progressPct}%] DRY RUN: ${change.isNew ? 'NEW' : 'UPDATED'} case - ${describePlanItem(item)}`, {
+            caseNo: change.caseNo,
+            ticketId: item.ticketId ?? undefined,
+          });
 
-        if (hasClosedChange) {
-          updateFields.case_close_date = wantClosed;
+          const result = item.action === 'error' ? 'error' : 'dry_run';
+          history.push(toHistoryEntry(change, transition, syncId, options, {
+            result,
+            ticketId: item.ticketId,
+            actions: [`plan: ${describePlanItem(item)}`],
+            addressMatched: item.matchedBy === 'address',
+            error: item.error ?? undefined,
+          }));
+          summary.changes.push({ ...toSummaryChange(change, transition), result, ticketId: item.ticketId });
+          caseResults.inc({ result });
+          if (item.action === 'error') {
+            // Not saved, so the next sync plans it again
+            failedCaseNos.add(change.caseNo);
+            errors++;
+          }
+          continue;
         }
 
-        if (hasStatusChange) {
-          updateFields.last_case_status = wantStatus;
-        }
+        const outcome = await syncCaseChange(change, transition, `[${progressPct}%]`);
+        history.push(toHistoryEntry(change, transition, syncId, options, outcome));
+        caseResults.inc({ result: outcome.result });
+        summary.changes.push({
+          ...toSummaryChange(change, transition),
+          result: outcome.result,
+          ticketId: outcome.ticketId,
+          actions: outcome.actions,
+          error: outcome.error,
+        });
 
-        // Log what we're updating
-        const updateSummary: string[] = [];
-        if (hasOpenedChange) {
-          updateSummary.push(`opened: ${currentOpened ?? 'null'} → ${wantOpened ?? 'null'}`);
-        }
-        if (hasClosedChange) {
-          updateSummary.push(`closed: ${currentClosed ?? 'null'} → ${wantClosed ?? 'null'}`);
+        if (outcome.addressMatched) {
+          addressMatched++;
         }
-        if (hasStatusChange) {
-          updateSummary.push(`status: ${currentStatus ?? 'null'} → ${wantStatus}`);
+        if (outcome.ticketId !== null) {
+          // Cache the ticket ID for future reference
+          linkedTickets.set(change.caseNo, outcome.ticketId);
         }
 
-        console.log(`[CASE SYNC] [${progressPct}%] Updating ${changeType} case ${change.caseNo} (ticket #${ticket.id}): ${updateSummary.join(', ')}`);
+        switch (outcome.result) {
+          case 'updated':
+          case 'queued':
+          case 'unchanged':
+            transitionCounts[transition.type]++;
+            if (outcome.result === 'updated') updated++;
+            else if (outcome.result === 'queued') queued++;
+            else noChanges++;
+            break;
+          case 'created':
+            created++;
+            break;
+          case 'held_for_review':
+            held++;
+            break;
+          case 'no_ticket':
+            notFound++;
+            break;
+          case 'error':
+            // State is not saved for failed cases, so the next sync retries them
+            failedCaseNos.add(change.caseNo);
+            errors++;
+            break;
+        }
+      }
 
-        // Update ticket custom fields in Threefold
-        await updateTicketCustomFields(ticket.id, updateFields);
+      // Save records to local state (except failed ones)
+      // This ensures we track what we've seen for next sync's diff comparison
+      await upsertCaseState(
+        failedCaseNos.size > 0 ? records.filter(r => !failedCaseNos.has(r.caseNo)) : records
+      );
 
-        // Add comment when case is closed (close date is being set)
-        if (hasClosedChange && wantClosed) {
-          await addTicketComment(ticket.id, `Case ${change.caseNo} is now closed`);
-        }
+      for (const [caseNo, ticketId] of linkedTickets) {
+        await updateCaseThreefoldId(caseNo, ticketId);
+        await resolvePendingCaseReviews(caseNo, ticketId);
+      }
 
-        // Cache the ticket ID
-        await updateCaseThreefoldId(change.caseNo, ticket.id);
+      await recordCaseHistory(history);
 
-        updated++;
-      } catch (err) {
-        console.error(`[CASE SYNC] Error processing case ${change.caseNo}:`, err);
-        errors++;
+      if (planItems.length > 0) {
+        summary.planId = await createCasePlan(syncId, options.sourceFile ?? null, planItems);
+        log.info(`DRY RUN: saved plan with ${planItems.length} items - review and approve via /admin/plans`, {
+          planId: summary.planId,
+        });
       }
-    }
 
-    // Save ALL records to local state
-    // This ensures we track what we've seen for next sync's diff comparison
-    await upsertCaseState(records);
+      await runMissingCaseDetection(records, options, syncId);
 
-    const duration = ((Date.now() - startTime) / 1000).toFixed(1);
+      const duration = ((Date.now() - startTime) / 1000).toFixed(1);
 
-    console.log('-'.repeat(60));
-    console.log(`[CASE SYNC] Sync complete in ${duration}s`);
-    console.log(`[CASE SYNC] Summary:`);
-    console.log(`  - Processed: ${processed} changes`);
-    console.log(`  - Updated in Threefold: ${updated}`);
-    console.log(`  - No ticket found: ${notFound}`);
-    console.log(`  - Already up to date: ${noChanges}`);
-    console.log(`  - Errors: ${errors}`);
-    console.log('='.repeat(60));
-    console.log('');
+      // held = uncertain address match, notFound = queued for review, queued = outbox retry,
+      // errors = retried next sync; transitions only count cases with a linked ticket
+      log.info(`Sync complete in ${duration}s`, {
+        processed,
+        updated,
+        addressMatched,
+        held,
+        created,
+        notFound,
+        unchanged: noChanges,
+        transitions: transitionCounts,
+        queued,
+        errors,
+      });
 
-    await completeSyncLog(syncId, records.length, updated, errors);
-  } catch (err) {
-    const errorMessage = err instanceof Error ? err.message : String(err);
-    console.error('[CASE SYNC] Fatal error:', err);
-    await completeSyncLog(syncId, records.length, 0, 1, errorMessage);
-    throw err;
-  }
+      await completeSyncLog(syncId, records.length, updated + created + queued, errors);
+
+      return {
+        ...summary,
+        newCases: newCases.length,
+        updatedCases: updatedCases.length,
+        updated,
+        addressMatched,
+        held,
+        created,
+        notFound,
+        unchanged: noChanges,
+        queued,
+        errors,
+        transitions: transitionCounts,
+      };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      log.error('Fatal error', { err });
+      await completeSyncLog(syncId, records.length, 0, 1, errorMessage);
+      throw err;
+    }
+  });
 }
@@ -0,0 +1,444 @@
+import { config } from '../config.js';
+import {
+  threefoldRequest,
+  ThreefoldApiError,
+  ThreefoldNetworkError,
+  ThreefoldCircuitOpenError,
+  ThreefoldRateLimitedError,
+} from './threefold-client.js';
+import { getCaseFieldTypes } from '../mapping/case-field-mapping.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('FIELDS');
+
+// ============ Types ============
+
+export type CustomFieldType = 'boolean' | 'string' | 'number' | 'date' | 'select' | 'multi_select';
+
+/**
+ * A Threefold custom field definition (from GET /api/custom-fields/definitions).
+ */
+export interface CustomFieldDefinition {
+  id: number;
+  name: string;
+  fieldKey: string;
+  fieldType: CustomFieldType;
+  validationRegex: string | null;
+  isActive: boolean;
+  options: string[]; // Option values for select/multi_select fields
+}
+
+/**
+ * Visibility of a field for one ticket type (from GET /api/custom-fields/visibility).
+ */
+interface FieldVisibility {
+  isVisible: boolean;
+  isRequired: boolean;
+}
+
+/**
+ * A single problem with a custom field value.
+ */
+export interface CustomFieldIssue {
+  fieldKey: string;
+  message: string;
+}
+
+/**
+ * A custom field payload failed local validation against the Threefold definitions.
+ * Sending it would only produce a 400, so it is never retried.
+ */
+export class CustomFieldValidationError extends Error {
+  constructor(
+    public readonly ticketId: number | null,
+    public readonly issues: CustomFieldIssue[]
+  ) {
+    super(
+      `Invalid custom fields${ticketId !== null ? ` for ticket #${ticketId}` : ''}: ` +
+      issues.map(i => `${i.fieldKey} ${i.message}`).join('; ')
+    );
+    this.name = 'CustomFieldValidationError';
+  }
+}
+
+// Custom fields this service writes, with the field types it writes them as.
+// Startup fails if a field of an enabled sync has been deleted, deactivated, renamed or retyped in Threefold.
+// Case fields come from the case field mapping, plus the case number used to link tickets.
+const CASE_NUMBER_FIELD: Record<string, CustomFieldType[]> = {
+  cc_case_number: ['string'],
+};
+
+// Only required when the violation / inspection syncs are enabled (README "Violation & Inspection Fields")
+const VIOLATION_FIELDS: Record<string, CustomFieldType[]> = {
+  cc_violation_count: ['number'],
+  cc_open_violation_count: ['number'],
+  cc_violation_summary: ['string'],
+};
+
+const INSPECTION_FIELDS: Record<string, CustomFieldType[]> = {
+  last_inspection_date: ['date'],
+  last_inspection_result: ['string', 'select'],
+};
+
+// ============ Cache ============
+
+let definitionsByKey = new Map<string, CustomFieldDefinition>();
+let visibilityByTicketType = new Map<number, Map<number, FieldVisibility>>();
+let loadedAt: Date | null = null;
+let refreshTimer: NodeJS.Timeout | null = null;
+let retryTimer: NodeJS.Timeout | null = null;
+
+// How soon to try again when Threefold could not be reached at startup
+const LOAD_RETRY_MS = 60_000;
+
+/**
+ * Fields the sync depends on, given which updates are enabled.
+ */
+function getDependedOnFields(): Record<string, CustomFieldType[]> {
+  return {
+    ...(config.caseUpdatesEnabled || config.caseTicketCreationEnabled
+      ? { ...CASE_NUMBER_FIELD, ...getCaseFieldTypes() }
+      : {}),
+    ...(config.violationUpdatesEnabled ? VIOLATION_FIELDS : {}),
+    ...(config.inspectionUpdatesEnabled ? INSPECTION_FIELDS : {}),
+    ...(config.caseMissingDetectionEnabled && config.caseMissingFieldKey
+      ? { [config.caseMissingFieldKey]: ['boolean'] as CustomFieldType[] }
+      : {}),
+  };
+}
+
+/**
+ * Fetch all active custom field definitions (with select options).
+ */
+async function fetchDefinitions(): Promise<CustomFieldDefinition[]> {
+  const data = await threefoldRequest<{
+    definitions: Array<{
+      id: number;
+      name: string;
+      field_key: string;
+      field_type: CustomFieldType;
+      validation_regex?: string | null;
+      is_active: boolean;
+      options?: Array<{ value: string }>;
+    }>;
+  }>({
+    method: 'GET',
+    path: '/api/custom-fields/definitions?active_only=true&include_options=true',
+    description: 'get custom field definitions',
+  });
+
+  return (data.definitions || []).map(d => ({
+    id: d.id,
+    name: d.name,
+    fieldKey: d.field_key,
+    fieldType: d.field_type,
+    validationRegex: d.validation_regex || null,
+    isActive: d.is_active,
+    options: (d.options || []).map(o => o.value),
+  }));
+}
+
+/**
+ * Fetch field visibility for a ticket type, keyed by field ID.
+ */
+async function fetchVisibility(ticketTypeId: number): Promise<Map<number, FieldVisibility>> {
+  const data = await threefoldRequest<{
+    visibility: Array<{ field_id: number; is_visible: boolean; is_required: boolean }>;
+  }>({
+    method: 'GET',
+    path: `/api/custom-fields/visibility?ticket_type_id=${ticketTypeId}`,
+    description: 'get custom field visibility',
+  });
+
+  const visibility = new Map<number, FieldVisibility>();
+  for (const v of data.visibility || []) {
+    visibility.set(v.field_id, { isVisible: v.is_visible, isRequired: v.is_required });
+  }
+  return visibility;
+}
+
+/**
+ * Check that every field we depend on exists, is active and has a type we know how to write.
+ *
+ * @returns One message per problem (empty when everything is in place)
+ */
+function checkDependedOnFields(definitions: Map<string, CustomFieldDefinition>): string[] {
+  const problems: string[] = [];
+  for (const [fieldKey, types] of Object.entries(getDependedOnFields())) {
+    const definition = definitions.get(fieldKey);
+    if (!definition) {
+      problems.push(`${fieldKey} is missing (deleted or renamed?)`);
+    } else if (!definition.isActive) {
+      problems.push(`${fieldKey} is inactive`);
+    } else if (!types.includes(definition.fieldType)) {
+      problems.push(`${fieldKey} is a ${definition.fieldType} field, expected ${types.join(' or ')}`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Fetch definitions (and visibility for every ticket type already cached) and swap them into the cache.
+ */
+async function refreshDefinitions(): Promise<string[]> {
+  const definitions = await fetchDefinitions();
+  const byKey = new Map(definitions.map(d => [d.fieldKey, d]));
+
+  const ticketTypeIds = new Set([...visibilityByTicketType.keys(), ...Object.values(config.caseTicketTypeIds)]);
+  const visibility = new Map<number, Map<number, FieldVisibility>>();
+  for (const ticketTypeId of ticketTypeIds) {
+    visibility.set(ticketTypeId, await fetchVisibility(ticketTypeId));
+  }
+
+  definitionsByKey = byKey;
+  visibilityByTicketType = visibility;
+  loadedAt = new Date();
+
+  return checkDependedOnFields(byKey);
+}
+
+/**
+ * Whether an error means Threefold could not be reached right now (as opposed to a bad token or setup).
+ */
+function isUnavailableError(err: unknown): boolean {
+  return (
+    err instanceof ThreefoldNetworkError ||
+    err instanceof ThreefoldCircuitOpenError ||
+    err instanceof ThreefoldRateLimitedError ||
+    (err instanceof ThreefoldApiError && err.status >= 500)
+  );
+}
+
+/**
+ * Log problems with depended-on fields found after startup.
+ */
+function reportProblems(problems: string[]): void {
+  if (problems.length > 0) {
+    log.error(`Threefold custom fields changed - updates to these fields will be rejected:\n  - ${problems.join('\n  - ')}`);
+  }
+}
+
+/**
+ * Keep trying to load definitions every LOAD_RETRY_MS until one attempt succeeds.
+ * The timer is unref'd so it never keeps the process alive on its own (the CLI exits once its sync is done).
+ */
+function scheduleLoadRetry(): void {
+  retryTimer = setTimeout(async () => {
+    retryTimer = null;
+    try {
+      reportProblems(await refreshDefinitions());
+      log.info('Loaded custom field definitions', { count: definitionsByKey.size });
+    } catch (err) {
+      log.warn('Threefold still unavailable, will retry loading custom field definitions', { err });
+      scheduleLoadRetry();
+    }
+  }, LOAD_RETRY_MS);
+  retryTimer.unref();
+}
+
+/**
+ * Load custom field definitions at startup.
+ * Throws if a field an enabled sync writes to is missing, inactive or has changed type -
+ * better to refuse to start than to push updates that will all be rejected.
+ *
+ * If Threefold is unreachable (network error, open circuit, 429 or 5xx) startup continues
+ * without definitions - validation is skipped until they load - and the load is retried
+ * every minute, so a Threefold outage does not crash-loop the service.
+ */
+export async function loadCustomFieldDefinitions(): Promise<void> {
+  let problems: string[];
+  try {
+    problems = await refreshDefinitions();
+  } catch (err) {
+    if (!isUnavailableError(err)) {
+      throw err;
+    }
+    log.warn('Threefold unavailable, starting without custom field definitions', { err, retryInMs: LOAD_RETRY_MS });
+    scheduleLoadRetry();
+    return;
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Threefold custom fields are not set up as expected:\n  - ${problems.join('\n  - ')}`);
+  }
+  log.info('Loaded custom field definitions', { count: definitionsByKey.size });
+}
+
+/**
+ * Periodically refresh the cached definitions (CUSTOM_FIELD_REFRESH_MINUTES).
+ * Refresh failures keep the previous cache; problems with depended-on fields are logged loudly.
+ */
+export function startCustomFieldRefresh(): void {
+  refreshTimer = setInterval(async () => {
+    // Still waiting on the startup retry
+    if (retryTimer) return;
+    try {
+      reportProblems(await refreshDefinitions());
+    } catch (err) {
+      log.warn('Failed to refresh custom field definitions, keeping cached copy', { err });
+    }
+  }, config.customFieldRefreshMinutes * 60 * 1000);
+}
+
+/**
+ * Stop refreshing definitions.
+ */
+export function stopCustomFieldRefresh(): void {
+  if (refreshTimer) {
+    clearInterval(refreshTimer);
+    refreshTimer = null;
+  }
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+}
+
+/**
+ * When the definitions were last loaded (null if never).
+ */
+export function getCustomFieldDefinitionsLoadedAt(): Date | null {
+  return loadedAt;
+}
+
+// ============ Validation ============
+
+/**
+ * Whether a value is a real YYYY-MM-DD calendar date.
+ */
+function isIsoDate(value: unknown): boolean {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Compile a field's validation regex (null if Threefold holds one JavaScript cannot parse).
+ */
+function compileValidationRegex(source: string): RegExp | null {
+  try {
+    return new RegExp(source);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validate one value against its definition.
+ *
+ * @returns Problem description, or null if the value is valid
+ */
+function validateValue(definition: CustomFieldDefinition, value: unknown): string | null {
+  switch (definition.fieldType) {
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `must be a boolean, got ${JSON.stringify(value)}`;
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? null : `must be a number, got ${JSON.stringify(value)}`;
+    case 'date':
+      return isIsoDate(value) ? null : `must be a YYYY-MM-DD date, got ${JSON.stringify(value)}`;
+    case 'string':
+      if (typeof value !== 'string') {
+        return `must be a string, got ${JSON.stringify(value)}`;
+      }
+      if (definition.validationRegex) {
+        const pattern = compileValidationRegex(definition.validationRegex);
+        if (!pattern) {
+          return `has an invalid validation regex in Threefold: ${definition.validationRegex}`;
+        }
+        if (!pattern.test(value)) {
+          return `"${value}" does not match ${definition.validationRegex}`;
+        }
+      }
+      return null;
+    case 'select':
+      return typeof value === 'string' && definition.options.includes(value)
+        ? null
+        : `${JSON.stringify(value)} is not one of: ${definition.options.join(', ')}`;
+    case 'multi_select': {
+      if (!Array.isArray(value)) {
+        return `must be an array, got ${JSON.stringify(value)}`;
+      }
+      const invalid = value.filter(v => !definition.options.includes(v));
+      return invalid.length === 0 ? null : `${JSON.stringify(invalid)} not in: ${definition.options.join(', ')}`;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validate a custom field payload against the cached Threefold definitions.
+ *
+ * Checks each value's type (date is a date, select is an allowed option, ...), regex rules,
+ * and - when the ticket type is known - that the field is visible for it and required fields
+ * are not being cleared. Validation is skipped until definitions have been loaded.
+ *
+ * @param ticketTypeId - Ticket's type; visibility is only checked when given
+ */
+export async function validateCustomFields(
+  customFields: object,
+  ticketTypeId?: number | null
+): Promise<CustomFieldIssue[]> {
+  if (!loadedAt) {
+    return [];
+  }
+
+  let visibility: Map<number, FieldVisibility> | undefined;
+  if (ticketTypeId) {
+    visibility = visibilityByTicketType.get(ticketTypeId);
+    if (!visibility) {
+      visibility = await fetchVisibility(ticketTypeId);
+      visibilityByTicketType.set(ticketTypeId, visibility);
+    }
+  }
+
+  const issues: CustomFieldIssue[] = [];
+
+  for (const [fieldKey, value] of Object.entries(customFields)) {
+    if (value === undefined) continue;
+
+    const definition = definitionsByKey.get(fieldKey);
+    if (!definition) {
+      issues.push({ fieldKey, message: 'is not a Threefold custom field' });
+      continue;
+    }
+
+    // Fields without a visibility entry for the ticket type are treated as visible
+    const fieldVisibility = visibility?.get(definition.id);
+    if (fieldVisibility && !fieldVisibility.isVisible) {
+      issues.push({ fieldKey, message: `is not visible for ticket type ${ticketTypeId}` });
+      continue;
+    }
+
+    // null clears the value
+    if (value === null) {
+      if (fieldVisibility?.isRequired) {
+        issues.push({ fieldKey, message: `is required for ticket type ${ticketTypeId} and cannot be cleared` });
+      }
+      continue;
+    }
+
+    const problem = validateValue(definition, value);
+    if (problem) {
+      issues.push({ fieldKey, message: problem });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate a custom field payload, throwing CustomFieldValidationError if anything is invalid.
+ */
+export async function assertValidCustomFields(
+  ticketId: number | null,
+  customFields: object,
+  ticketTypeId?: number | null
+): Promise<void> {
+  const issues = await validateCustomFields(customFields, ticketTypeId);
+  if (issues.length > 0) {
+    throw new CustomFieldValidationError(ticketId, issues);
+  }
+}
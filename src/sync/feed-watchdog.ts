@@ -0,0 +1,186 @@
+import { config } from '../config.js';
+import { getRecentSuccessfulSyncLogs, SyncLogEntry } from '../state/tracker.js';
+import {
+  createFeedAlert,
+  getOpenFeedAlerts,
+  resolveFeedAlert,
+  markFeedAlertDelivery,
+  FeedAlert,
+} from '../state/feed-alerts.js';
+import { sendAlert } from '../alerts.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('WATCHDOG');
+
+// Used as the "last export" time before any cases run has ever completed
+const startedAt = Date.now();
+
+let checking = false;
+let pollTimer: NodeJS.Timeout | null = null;
+
+/**
+ * What a watchdog check found.
+ */
+export interface FeedCheckResult {
+  latestRun: SyncLogEntry | null;
+  previousRun: SyncLogEntry | null;
+  // Hours since the latest successful cases run (or since startup if there is none)
+  hoursSinceLastRun: number;
+  stale: boolean;
+  rowDrop: boolean;
+  alertsRaised: number;
+  alertsDelivered: number;
+  recovered: number;
+}
+
+/**
+ * Check the cases feed, raising an alert for a stale feed and for a sharp row drop.
+ *
+ * Each alert is stored (feed_alert) and sent to the alert webhook once - alerts whose delivery
+ * failed are retried on the next check. A stale feed alert is resolved, with a recovery message,
+ * once a newer cases run completes; a row drop alert is resolved by the next run of normal size.
+ */
+export async function checkFeedHealth(): Promise<FeedCheckResult> {
+  const [latestRun = null, previousRun = null] = await getRecentSuccessfulSyncLogs('cases', 2);
+  const lastRunAt = latestRun?.completedAt ? Date.parse(latestRun.completedAt) : startedAt;
+  const hoursSinceLastRun = (Date.now() - lastRunAt) / 3_600_000;
+
+  const result: FeedCheckResult = {
+    latestRun,
+    previousRun,
+    hoursSinceLastRun: Math.round(hoursSinceLastRun * 10) / 10,
+    stale: hoursSinceLastRun > config.feedStaleHours,
+    rowDrop: false,
+    alertsRaised: 0,
+    alertsDelivered: 0,
+    recovered: 0,
+  };
+
+  // Stale feed - keyed on the last successful run, so each outage alerts once
+  if (result.stale) {
+    const alert = await createFeedAlert({
+      alertType: 'stale_feed',
+      syncLogId: latestRun?.id ?? null,
+      message: latestRun
+        ? `:warning: No TrakIT cases export has synced for ${result.hoursSinceLastRun}h ` +
+          `(last run #${latestRun.id} completed ${latestRun.completedAt}, threshold ${config.feedStaleHours}h). ` +
+          'Check the TrakIT scheduled email and SendGrid Inbound Parse routing.'
+        : `:warning: No TrakIT cases export has synced since startup ${result.hoursSinceLastRun}h ago ` +
+          `(threshold ${config.feedStaleHours}h). Check the TrakIT scheduled email and SendGrid Inbound Parse routing.`,
+      details: { hoursSinceLastRun: result.hoursSinceLastRun, lastRunAt: latestRun?.completedAt ?? null },
+    });
+    if (alert) result.alertsRaised++;
+  } else {
+    for (const alert of await getOpenFeedAlerts('stale_feed')) {
+      if (alert.syncLogId === latestRun?.id) continue;
+      await resolveFeedAlert(alert.id);
+      result.recovered++;
+      log.info('Cases feed recovered', { alertId: alert.id, syncLogId: latestRun?.id });
+      await deliverSafely(
+        `:white_check_mark: TrakIT cases export is arriving again - run #${latestRun?.id} completed ` +
+        `${latestRun?.completedAt} with ${latestRun?.totalRecords} rows.`
+      );
+    }
+  }
+
+  // Row drop - the latest run against the one before it
+  if (latestRun && previousRun && previousRun.totalRecords > 0) {
+    const ratio = latestRun.totalRecords / previousRun.totalRecords;
+    result.rowDrop = ratio < config.feedMinRowRatio;
+
+    if (result.rowDrop) {
+      const alert = await createFeedAlert({
+        alertType: 'row_drop',
+        syncLogId: latestRun.id,
+        message:
+          `:warning: TrakIT cases export shrank sharply - run #${latestRun.id} had ${latestRun.totalRecords} rows ` +
+          `vs ${previousRun.totalRecords} in run #${previousRun.id} (${Math.round(ratio * 100)}%, ` +
+          `threshold ${Math.round(config.feedMinRowRatio * 100)}%). The export may be truncated or filtered.`,
+        details: { totalRecords: latestRun.totalRecords, previousTotalRecords: previousRun.totalRecords, ratio },
+      });
+      if (alert) result.alertsRaised++;
+    } else {
+      for (const alert of await getOpenFeedAlerts('row_drop')) {
+        if (alert.syncLogId !== latestRun.id) await resolveFeedAlert(alert.id);
+      }
+    }
+  }
+
+  // Send new alerts, and retry ones whose delivery failed
+  const pending = [...await getOpenFeedAlerts('stale_feed'), ...await getOpenFeedAlerts('row_drop')]
+    .filter(alert => alert.deliveredAt === null);
+  for (const alert of pending) {
+    if (await deliverAlert(alert)) result.alertsDelivered++;
+  }
+
+  return result;
+}
+
+/**
+ * Send a stored alert and record the outcome.
+ *
+ * @returns true if delivered
+ */
+async function deliverAlert(alert: FeedAlert): Promise<boolean> {
+  try {
+    await sendAlert(alert.message);
+    await markFeedAlertDelivery(alert.id, null);
+    return true;
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : String(err);
+    log.error('Failed to deliver alert, will retry on next check', { alertId: alert.id, err });
+    await markFeedAlertDelivery(alert.id, errorMessage);
+    return false;
+  }
+}
+
+/**
+ * Send a one-off message (not stored), logging rather than throwing on failure.
+ */
+async function deliverSafely(text: string): Promise<void> {
+  try {
+    await sendAlert(text);
+  } catch (err) {
+    log.error('Failed to deliver message', { err });
+  }
+}
+
+/**
+ * Run a check, skipping it if one is already running.
+ */
+async function runCheck(): Promise<void> {
+  if (checking) return;
+  checking = true;
+  try {
+    const result = await checkFeedHealth();
+    if (result.stale || result.rowDrop) {
+      log.warn('Cases feed unhealthy', {
+        stale: result.stale,
+        rowDrop: result.rowDrop,
+        hoursSinceLastRun: result.hoursSinceLastRun,
+      });
+    }
+  } catch (err) {
+    log.error('Watchdog check failed', { err });
+  } finally {
+    checking = false;
+  }
+}
+
+/**
+ * Start checking the cases feed every FEED_WATCHDOG_INTERVAL_MINUTES.
+ */
+export function startFeedWatchdog(): void {
+  pollTimer = setInterval(() => void runCheck(), config.feedWatchdogIntervalMinutes * 60_000);
+  void runCheck();
+}
+
+/**
+ * Stop checking the cases feed.
+ */
+export function stopFeedWatchdog(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
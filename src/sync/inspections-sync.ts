@@ -0,0 +1,221 @@
+import { config } from '../config.js';
+import { InspectionRecord } from '../parsers/inspections.js';
+import {
+  diffInspections,
+  upsertInspectionState,
+  hasInspectionState,
+  updateCaseThreefoldId,
+  createSyncLog,
+  completeSyncLog,
+  InspectionStateChange,
+} from '../state/tracker.js';
+import { CodeComplianceCustomFields } from './threefold.js';
+import { sendOrQueueTicketMutation } from './ticket-mutations.js';
+import { findTicketForCase } from './case-ticket.js';
+import { createLogger, withLogContext } from '../logger.js';
+
+const log = createLogger('INSPECTION SYNC');
+
+/**
+ * Find the most recently completed inspection for a case.
+ */
+function latestCompletedInspection(inspections: InspectionRecord[]): InspectionRecord | null {
+  let latest: InspectionRecord | null = null;
+  for (const inspection of inspections) {
+    if (!inspection.completedDate) continue;
+    if (!latest || inspection.completedDate > latest.completedDate!) {
+      latest = inspection;
+    }
+  }
+  return latest;
+}
+
+/**
+ * Whether a change represents an inspection that has just been completed.
+ */
+function isNewlyCompleted(change: InspectionStateChange): boolean {
+  return change.record.completedDate !== null && change.previousCompletedDate === null;
+}
+
+/**
+ * Build the ticket comment for a completed inspection.
+ */
+function formatInspectionComment(inspection: InspectionRecord): string {
+  const parts = [
+    `Inspection completed for case ${inspection.caseNo}: ${inspection.inspectionType}`,
+    `Result: ${inspection.result || 'N/A'}`,
+    `Completed: ${inspection.completedDate}`,
+  ];
+  if (inspection.inspector) {
+    parts.push(`Inspector: ${inspection.inspector}`);
+  }
+  return parts.join('\n');
+}
+
+/**
+ * Process TrakIT case inspections sync.
+ *
+ * Logic:
+ * 1. Compare incoming CSV against local inspection_state table to find changes
+ *    (the very first sync only populates state - historic inspections are not commented)
+ * 2. Group changed inspections by parent case number
+ * 3. For each affected case, find its ticket (cached ID or cc_case_number search)
+ * 4. Set last inspection date/result from the case's most recent completed inspection
+ * 5. Post a comment for each newly completed inspection
+ * 6. Save records to local state for next sync comparison - except for cases that failed, or were
+ *    not pushed because INSPECTION_UPDATES_ENABLED is off, so the next sync picks them up again
+ *
+ * Custom fields updated:
+ * - last_inspection_date: completed date of the latest inspection (YYYY-MM-DD)
+ * - last_inspection_result: result of the latest inspection
+ */
+export async function processInspectionsSync(records: InspectionRecord[]): Promise<void> {
+  const syncId = await createSyncLog('inspections');
+  const startTime = Date.now();
+
+  // Tag every log line from this run (and the Threefold calls it makes) with the sync log ID
+  await withLogContext({ syncLogId: syncId }, async () => {
+    log.info(`Starting sync for ${records.length} records`);
+
+    try {
+      if (!(await hasInspectionState())) {
+        log.info('First sync - populating state table without ticket updates');
+        await upsertInspectionState(records);
+        await completeSyncLog(syncId, records.length, 0, 0);
+        return;
+      }
+
+      const changes = await diffInspections(records);
+
+      log.info(`Found ${changes.length} changes out of ${records.length} records`);
+
+      if (changes.length === 0) {
+        log.info('No changes detected, skipping API updates');
+        await upsertInspectionState(records);
+        await completeSyncLog(syncId, records.length, 0, 0);
+        return;
+      }
+
+      const inspectionsByCase = new Map<string, InspectionRecord[]>();
+      for (const record of records) {
+        const list = inspectionsByCase.get(record.caseNo) ?? [];
+        list.push(record);
+        inspectionsByCase.set(record.caseNo, list);
+      }
+
+      const changesByCase = new Map<string, InspectionStateChange[]>();
+      for (const change of changes) {
+        const list = changesByCase.get(change.caseNo) ?? [];
+        list.push(change);
+        changesByCase.set(change.caseNo, list);
+      }
+
+      log.info('Changes by type', {
+        newlyCompleted: changes.filter(isNewlyCompleted).length,
+        affectedCases: changesByCase.size,
+      });
+
+      let processed = 0;
+      let updated = 0;
+      let comments = 0;
+      let notFound = 0;
+      let queued = 0;
+      let notPushed = 0;
+      let errors = 0;
+
+      // Cases whose inspections are left out of inspection_state, so the next sync sees them as changed again
+      const unsyncedCaseNos = new Set<string>();
+
+      for (const [caseNo, caseChanges] of changesByCase) {
+        processed++;
+        const progressPct = Math.round((processed / changesByCase.size) * 100);
+        const completed = caseChanges.filter(isNewlyCompleted).map(c => c.record);
+
+        await withLogContext({ caseNo }, async () => {
+          try {
+            if (!config.inspectionUpdatesEnabled) {
+              log.info(`[${progressPct}%] DRY RUN: Would update case (${completed.length} newly completed)`);
+              unsyncedCaseNos.add(caseNo);
+              notPushed++;
+              return;
+            }
+
+            const ticket = await findTicketForCase(caseNo);
+
+            if (!ticket) {
+              log.info(`[${progressPct}%] No ticket found for case`);
+              notFound++;
+              return;
+            }
+
+            const latest = latestCompletedInspection(inspectionsByCase.get(caseNo) ?? []);
+            const existingFields = ticket.customFields as Partial<CodeComplianceCustomFields>;
+            const updateFields: CodeComplianceCustomFields = {};
+
+            if (latest) {
+              if ((existingFields.last_inspection_date || null) !== latest.completedDate) {
+                updateFields.last_inspection_date = latest.completedDate!;
+              }
+              if ((existingFields.last_inspection_result || null) !== (latest.result || null)) {
+                updateFields.last_inspection_result = latest.result;
+              }
+            }
+
+            if (Object.keys(updateFields).length > 0) {
+              log.info(`[${progressPct}%] Updating case: last inspection ${latest!.completedDate} ${latest!.result}`, {
+                ticketId: ticket.id,
+              });
+              const result = await sendOrQueueTicketMutation({
+                action: 'custom_fields',
+                ticketId: ticket.id,
+                ticketTypeId: ticket.ticketTypeId,
+                caseNo,
+                payload: updateFields,
+              });
+              if (result === 'queued') {
+                queued++;
+              } else {
+                updated++;
+              }
+            }
+
+            for (const inspection of completed) {
+              const result = await sendOrQueueTicketMutation({
+                action: 'comment',
+                ticketId: ticket.id,
+                caseNo,
+                payload: { content: formatInspectionComment(inspection) },
+              });
+              if (result === 'queued') {
+                queued++;
+              } else {
+                comments++;
+              }
+            }
+
+            await updateCaseThreefoldId(caseNo, ticket.id);
+          } catch (err) {
+            log.error('Error processing case', { err });
+            unsyncedCaseNos.add(caseNo);
+            errors++;
+          }
+        });
+      }
+
+      await upsertInspectionState(records.filter(r => !unsyncedCaseNos.has(r.caseNo)));
+
+      const duration = ((Date.now() - startTime) / 1000).toFixed(1);
+
+      // notFound = no ticket for the case, queued = outbox retry,
+      // notPushed = INSPECTION_UPDATES_ENABLED off, errors = retried next sync
+      log.info(`Sync complete in ${duration}s`, { processed, updated, comments, notFound, queued, notPushed, errors });
+
+      await completeSyncLog(syncId, records.length, updated + queued, errors);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      log.error('Fatal error', { err });
+      await completeSyncLog(syncId, records.length, 0, 1, errorMessage);
+      throw err;
+    }
+  });
+}
@@ -0,0 +1,149 @@
+import { config } from '../config.js';
+import { ReportType } from '../parsers/detect-type.js';
+import { parseCodeEnforcementCasesCsv } from '../parsers/code-enforcement-cases.js';
+import { parseViolationsCsv } from '../parsers/violations.js';
+import { parseInspectionsCsv } from '../parsers/inspections.js';
+import { parsePermitsCsv } from '../parsers/permits.js';
+import {
+  claimNextSyncJob,
+  markSyncJobSucceeded,
+  markSyncJobFailed,
+  heartbeatSyncJob,
+  requeueInterruptedSyncJobs,
+  ClaimedSyncJob,
+} from '../state/jobs.js';
+import { processCasesSync } from './cases-sync.js';
+import { processViolationsSync } from './violations-sync.js';
+import { processInspectionsSync } from './inspections-sync.js';
+import { processPermitsSync } from './permits-sync.js';
+import { createLogger, withLogContext } from '../logger.js';
+
+const log = createLogger('JOB');
+const parseLog = createLogger('PARSE');
+
+// Fallback poll interval - new jobs normally wake the worker immediately via notifyJobWorker()
+const POLL_INTERVAL_MS = 30_000;
+
+let draining = false;
+let pollTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Parse a CSV export and run the sync for its report type.
+ *
+ * @param sourceFile - Attachment filename, recorded with case history
+ */
+export async function runReportSync(reportType: ReportType, csvContent: string, sourceFile?: string): Promise<void> {
+  switch (reportType) {
+    case 'cases': {
+      const cases = await parseCodeEnforcementCasesCsv(csvContent);
+      parseLog.info(`Parsed ${cases.length} case records`);
+      await processCasesSync(cases, { sourceFile });
+      break;
+    }
+    case 'violations': {
+      const violations = await parseViolationsCsv(csvContent);
+      parseLog.info(`Parsed ${violations.length} violation records`);
+      await processViolationsSync(violations);
+      break;
+    }
+    case 'inspections': {
+      const inspections = await parseInspectionsCsv(csvContent);
+      parseLog.info(`Parsed ${inspections.length} inspection records`);
+      await processInspectionsSync(inspections);
+      break;
+    }
+    case 'permits': {
+      const permits = await parsePermitsCsv(csvContent);
+      parseLog.info(`Parsed ${permits.length} permit records`);
+      await processPermitsSync(permits);
+      break;
+    }
+  }
+}
+
+/**
+ * Run a claimed job and record whether it succeeded.
+ * The job heartbeats while it runs so other instances don't take it over (see requeueStaleJobs).
+ * Log lines from the sync are tagged with the job ID and the email's Message-ID.
+ */
+function runJob(job: ClaimedSyncJob): Promise<void> {
+  return withLogContext({ jobId: job.id, messageId: job.emailMessageId ?? undefined }, async () => {
+    log.info(`Starting job: ${job.reportType} from ${job.filename} (attempt ${job.attempts})`);
+    const startTime = Date.now();
+    const heartbeat = setInterval(() => {
+      heartbeatSyncJob(job.id).catch(err => log.warn('Failed to record job heartbeat', { err }));
+    }, (config.syncJobLeaseSeconds * 1000) / 3);
+
+    try {
+      await runReportSync(job.reportType, job.content, job.filename);
+      await markSyncJobSucceeded(job.id);
+      log.info(`Job succeeded in ${((Date.now() - startTime) / 1000).toFixed(1)}s`);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      log.error('Job failed', { err });
+      await markSyncJobFailed(job.id, errorMessage);
+    } finally {
+      clearInterval(heartbeat);
+    }
+  });
+}
+
+/**
+ * Re-queue running jobs whose heartbeat has lapsed (their process died).
+ */
+async function requeueStaleJobs(): Promise<void> {
+  const requeued = await requeueInterruptedSyncJobs(config.syncJobLeaseSeconds);
+  if (requeued > 0) {
+    log.info(`Re-queued ${requeued} interrupted job(s)`);
+  }
+}
+
+/**
+ * Process queued jobs one at a time until the queue is empty.
+ * Running jobs sequentially keeps syncs from overlapping.
+ */
+async function drainQueue(): Promise<void> {
+  if (draining) return;
+  draining = true;
+
+  try {
+    await requeueStaleJobs();
+    let job = await claimNextSyncJob();
+    while (job) {
+      await runJob(job);
+      job = await claimNextSyncJob();
+    }
+  } catch (err) {
+    log.error('Worker error', { err });
+  } finally {
+    draining = false;
+  }
+}
+
+/**
+ * Wake the worker after a job has been queued.
+ */
+export function notifyJobWorker(): void {
+  void drainQueue();
+}
+
+/**
+ * Start the background job worker.
+ * Polls for queued jobs, re-queueing jobs interrupted by a crashed process on each poll.
+ */
+export async function startJobWorker(): Promise<void> {
+  await requeueStaleJobs();
+
+  pollTimer = setInterval(() => void drainQueue(), POLL_INTERVAL_MS);
+  void drainQueue();
+}
+
+/**
+ * Stop polling for new jobs (a job already running is not interrupted).
+ */
+export function stopJobWorker(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
@@ -0,0 +1,134 @@
+import { config } from '../config.js';
+import { CodeEnforcementCaseRecord } from '../parsers/code-enforcement-cases.js';
+import { countPresentCases, resetSeenCases, markUnseenCases, CasePresenceChange } from '../state/tracker.js';
+import { recordCaseHistory, CaseHistoryInput } from '../state/case-history.js';
+import { sendOrQueueTicketMutation } from './ticket-mutations.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('CASE SYNC');
+
+/**
+ * Result of removal detection for one full export.
+ */
+export interface MissingCasesResult {
+  skipped: boolean;
+  markedMissing: number;
+  reappeared: number;
+  ticketsFlagged: number;
+}
+
+/**
+ * Sync run the removal detection belongs to (recorded in case history).
+ */
+export interface MissingCasesContext {
+  syncLogId: number;
+  sourceFile: string | null;
+}
+
+/**
+ * Set (or clear) the missing flag on a case's linked ticket and explain why in a comment.
+ *
+ * @returns 'queued' if either update went to the outbox
+ */
+async function flagTicket(change: CasePresenceChange, missing: boolean): Promise<'sent' | 'queued'> {
+  const fieldsResult = await sendOrQueueTicketMutation({
+    action: 'custom_fields',
+    ticketId: change.threefoldTicketId!,
+    caseNo: change.caseNo,
+    payload: { [config.caseMissingFieldKey]: missing },
+  });
+
+  const content = missing
+    ? `Case ${change.caseNo} no longer appears in the TrakIT export (absent from ${config.caseMissingAfterImports} consecutive imports). It may have been deleted or merged in TrakIT.`
+    : `Case ${change.caseNo} appears in the TrakIT export again.`;
+
+  const commentResult = await sendOrQueueTicketMutation({
+    action: 'comment',
+    ticketId: change.threefoldTicketId!,
+    caseNo: change.caseNo,
+    payload: { content },
+  });
+
+  return fieldsResult === 'queued' || commentResult === 'queued' ? 'queued' : 'sent';
+}
+
+/**
+ * Detect cases that have disappeared from the full TrakIT export.
+ * Must run after upsertCaseState so cases first seen in this export are counted as present.
+ *
+ * Logic:
+ * 1. Reset the missed-import counter of every case in the export (un-marking cases that are back)
+ * 2. Skip removal if the export is suspiciously small compared to the known cases (truncated file)
+ * 3. Count a missed import for every other case; mark missing after CASE_MISSING_AFTER_IMPORTS in a row
+ * 4. When CASE_MISSING_FIELD_KEY is set, flag/unflag linked tickets with the field and a comment
+ * 5. Record each missing/reappeared case in case_state_history
+ */
+export async function detectMissingCases(
+  records: CodeEnforcementCaseRecord[],
+  context: MissingCasesContext
+): Promise<MissingCasesResult> {
+  const result: MissingCasesResult = { skipped: false, markedMissing: 0, reappeared: 0, ticketsFlagged: 0 };
+  const caseNos = Array.from(new Set(records.map(r => r.caseNo)));
+
+  const reappeared = await resetSeenCases(caseNos);
+  result.reappeared = reappeared.length;
+
+  const presentCases = await countPresentCases();
+  if (caseNos.length < presentCases * config.caseMissingMinRowRatio) {
+    log.warn(`Export has ${caseNos.length} cases but ${presentCases} are known - skipping removal detection (possible truncated export)`);
+    result.skipped = true;
+  }
+
+  const missing = result.skipped ? [] : await markUnseenCases(caseNos, config.caseMissingAfterImports);
+  result.markedMissing = missing.length;
+
+  for (const change of missing) {
+    log.info(`Case marked missing (absent from ${config.caseMissingAfterImports} consecutive imports)`, { caseNo: change.caseNo });
+  }
+  for (const change of reappeared) {
+    log.info('Case is back in the export', { caseNo: change.caseNo });
+  }
+
+  const flagTickets = Boolean(config.caseMissingFieldKey) && config.caseUpdatesEnabled;
+  const history: CaseHistoryInput[] = [];
+
+  for (const [changes, isMissing] of [[missing, true], [reappeared, false]] as const) {
+    for (const change of changes) {
+      const entry: CaseHistoryInput = {
+        caseNo: change.caseNo,
+        syncLogId: context.syncLogId,
+        sourceFile: context.sourceFile,
+        changeType: isMissing ? 'missing' : 'reappeared',
+        transition: null,
+        oldValues: null,
+        newValues: null,
+        threefoldTicketId: change.threefoldTicketId,
+        threefoldAction: null,
+        threefoldResult: 'skipped',
+      };
+
+      try {
+        if (flagTickets && change.threefoldTicketId) {
+          const flagResult = await flagTicket(change, isMissing);
+          entry.threefoldAction = `custom_fields(${config.caseMissingFieldKey}); comment`;
+          entry.threefoldResult = flagResult === 'queued' ? 'queued' : 'updated';
+          result.ticketsFlagged++;
+        }
+      } catch (err) {
+        log.error(`Error flagging ticket for ${isMissing ? 'missing' : 'returned'} case`, {
+          caseNo: change.caseNo,
+          ticketId: change.threefoldTicketId ?? undefined,
+          err,
+        });
+        entry.threefoldResult = 'error';
+        entry.errorMessage = err instanceof Error ? err.message : String(err);
+      }
+
+      history.push(entry);
+    }
+  }
+
+  await recordCaseHistory(history);
+
+  return result;
+}
@@ -0,0 +1,94 @@
+import { config } from '../config.js';
+import { getDueOutboxItems, markOutboxSucceeded, markOutboxFailed } from '../state/outbox.js';
+import { executeTicketMutation, nextOutboxAttempt, supersedeOlderWrites } from './ticket-mutations.js';
+import { isRetryableThreefoldError, ThreefoldCircuitOpenError } from './threefold-client.js';
+import { CustomFieldValidationError } from './custom-field-definitions.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('OUTBOX');
+
+const BATCH_SIZE = 50;
+
+let draining = false;
+let pollTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Retry all due outbox items.
+ * Each ticket's items run in order, one at a time - a failed item holds back the rest of its
+ * ticket's items until it succeeds or is dead-lettered (see getDueOutboxItems).
+ * Items that keep failing are rescheduled with exponential backoff and dead-lettered
+ * after OUTBOX_MAX_ATTEMPTS attempts. Rejected payloads and deleted tickets are dead-lettered
+ * immediately, and the drain stops early while the Threefold circuit is open.
+ */
+export async function drainOutbox(): Promise<{ succeeded: number; failed: number; dead: number }> {
+  const stats = { succeeded: 0, failed: 0, dead: 0 };
+  if (draining) return stats;
+  draining = true;
+
+  try {
+    let items = await getDueOutboxItems(BATCH_SIZE);
+    while (items.length > 0) {
+      for (const item of items) {
+        try {
+          await executeTicketMutation(item);
+          await markOutboxSucceeded(item.id);
+          await supersedeOlderWrites(item, item.id);
+          stats.succeeded++;
+          log.info(`Delivered ${item.action} on attempt ${item.attempts + 1}`, { outboxId: item.id, ticketId: item.ticketId });
+        } catch (err) {
+          if (err instanceof ThreefoldCircuitOpenError) {
+            // Not an attempt - leave the item (and the rest of the batch) due for the next poll
+            log.warn(`${err.message}, pausing retries`);
+            return stats;
+          }
+
+          const errorMessage = err instanceof Error ? err.message : String(err);
+          const retryable = isRetryableThreefoldError(err) && !(err instanceof CustomFieldValidationError);
+          const nextAttemptAt = retryable ? nextOutboxAttempt(item.attempts + 1) : null;
+          await markOutboxFailed(item.id, errorMessage, nextAttemptAt);
+
+          if (nextAttemptAt) {
+            stats.failed++;
+            log.warn(`Retry failed (attempt ${item.attempts + 1}), next at ${nextAttemptAt.toISOString()}: ${errorMessage}`, {
+              outboxId: item.id,
+              ticketId: item.ticketId,
+            });
+          } else {
+            stats.dead++;
+            log.error(`Dead-lettered after ${item.attempts + 1} attempts: ${errorMessage}`, {
+              outboxId: item.id,
+              ticketId: item.ticketId,
+            });
+          }
+        }
+      }
+
+      // Items that just failed are rescheduled into the future (holding back their ticket), so this
+      // picks up the next item of each delivered ticket and any new due items
+      items = await getDueOutboxItems(BATCH_SIZE);
+    }
+  } catch (err) {
+    log.error('Worker error', { err });
+  } finally {
+    draining = false;
+  }
+
+  return stats;
+}
+
+/**
+ * Start polling the outbox for due retries.
+ */
+export function startOutboxWorker(): void {
+  pollTimer = setInterval(() => void drainOutbox(), config.outboxPollIntervalSeconds * 1000);
+}
+
+/**
+ * Stop polling the outbox.
+ */
+export function stopOutboxWorker(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
@@ -0,0 +1,129 @@
+import { config } from '../config.js';
+import { PermitRecord } from '../parsers/permits.js';
+import { diffPermits, upsertPermitState, createSyncLog, completeSyncLog } from '../state/tracker.js';
+import { ThreefoldPermitPayload } from './threefold.js';
+import { sendOrQueueTicketMutation } from './ticket-mutations.js';
+import { createLogger, withLogContext } from '../logger.js';
+
+const log = createLogger('PERMIT SYNC');
+
+/**
+ * Build the Threefold permit payload from a parsed permit record.
+ */
+export function buildPermitPayload(record: PermitRecord): ThreefoldPermitPayload {
+  return {
+    permit_number: record.permitNo,
+    status: record.status,
+    permit_type: record.permitType,
+    permit_subtype: record.permitSubType,
+    applied_date: record.appliedAt,
+    approved_date: record.approvedAt,
+    issued_date: record.issuedAt,
+    finaled_date: record.finaledAt,
+    expired_date: record.expiredAt,
+    address: record.siteAddress,
+    description: record.description,
+    job_value: record.jobValue,
+    apn: record.apn,
+  };
+}
+
+/**
+ * Process TrakIT permits sync.
+ *
+ * Logic:
+ * 1. Compare incoming CSV against local permit_state table (content hash) to find changes
+ * 2. For each changed permit (new or updated), upsert it in Threefold by permit number
+ *    (failed pushes go to the outbox for retry) and cache the Threefold permit/type/subtype/status IDs
+ * 3. Save records to local state for next sync comparison - except permits that could not be
+ *    pushed or queued, or were not pushed because PERMIT_UPDATES_ENABLED is off, so the next sync
+ *    picks them up again
+ */
+export async function processPermitsSync(records: PermitRecord[]): Promise<void> {
+  const syncId = await createSyncLog('permits');
+  const startTime = Date.now();
+
+  // Tag every log line from this run (and the Threefold calls it makes) with the sync log ID
+  await withLogContext({ syncLogId: syncId }, async () => {
+    log.info(`Starting sync for ${records.length} records`);
+
+    try {
+      const changes = await diffPermits(records);
+
+      log.info(`Found ${changes.length} changes out of ${records.length} records`);
+
+      if (changes.length === 0) {
+        log.info('No changes detected, skipping API updates');
+        await upsertPermitState(records);
+        await completeSyncLog(syncId, records.length, 0, 0);
+        return;
+      }
+
+      // New = first time seen, updated = content changed
+      log.info('Changes by type', {
+        newPermits: changes.filter(c => c.isNew).length,
+        updatedPermits: changes.filter(c => !c.isNew).length,
+      });
+
+      let processed = 0;
+      let updated = 0;
+      let queued = 0;
+      let notPushed = 0;
+      let errors = 0;
+
+      // Permits left out of permit_state, so the next sync sees them as changed again
+      const unsyncedPermitNos = new Set<string>();
+
+      for (const change of changes) {
+        processed++;
+        const progressPct = Math.round((processed / changes.length) * 100);
+        const changeType = change.isNew ? 'NEW' : 'UPDATED';
+        const statusChange = `${change.previousStatus ?? 'none'} → ${change.record.status}`;
+
+        try {
+          if (!config.permitUpdatesEnabled) {
+            log.info(`[${progressPct}%] DRY RUN: Would push ${changeType} permit (${statusChange})`, { permitNo: change.permitNo });
+            unsyncedPermitNos.add(change.permitNo);
+            notPushed++;
+            continue;
+          }
+
+          log.info(`[${progressPct}%] Pushing ${changeType} permit (${statusChange})`, { permitNo: change.permitNo });
+          const result = await sendOrQueueTicketMutation({
+            action: 'permit_upsert',
+            ticketId: null,
+            caseNo: null,
+            payload: buildPermitPayload(change.record),
+          });
+
+          if (result === 'queued') {
+            queued++;
+          } else {
+            updated++;
+          }
+        } catch (err) {
+          log.error('Error processing permit', { permitNo: change.permitNo, err });
+          unsyncedPermitNos.add(change.permitNo);
+          errors++;
+        }
+      }
+
+      // Save records to local state for next sync's diff comparison
+      await upsertPermitState(
+        unsyncedPermitNos.size > 0 ? records.filter(r => !unsyncedPermitNos.has(r.permitNo)) : records
+      );
+
+      const duration = ((Date.now() - startTime) / 1000).toFixed(1);
+
+      // queued = outbox retry, notPushed = PERMIT_UPDATES_ENABLED off, errors = retried next sync
+      log.info(`Sync complete in ${duration}s`, { processed, updated, queued, notPushed, errors });
+
+      await completeSyncLog(syncId, records.length, updated + queued, errors);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      log.error('Fatal error', { err });
+      await completeSyncLog(syncId, records.length, 0, 1, errorMessage);
+      throw err;
+    }
+  });
+}
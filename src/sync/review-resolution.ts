@@ -0,0 +1,39 @@
+import { ReviewQueueItem, resolveReviewQueueItem } from '../state/review-queue.js';
+import { updateCaseThreefoldId } from '../state/tracker.js';
+import { updateTicketCustomFields, TicketWithCustomFields } from './threefold.js';
+import { applyCaseToTicket, CaseTicketUpdateResult } from './cases-sync.js';
+import { determineCaseTransition } from './case-transitions.js';
+import { createLogger, withLogContext } from '../logger.js';
+
+const log = createLogger('REVIEW');
+
+/**
+ * Resolve a review queue item to a ticket chosen by a reviewer.
+ *
+ * Stamps cc_case_number on the ticket (if not already set), runs the normal
+ * case → ticket custom field update, caches the ticket ID and closes the item.
+ */
+export async function resolveCaseReview(
+  item: ReviewQueueItem,
+  ticket: TicketWithCustomFields,
+  resolvedBy: string
+): Promise<CaseTicketUpdateResult> {
+  const record = item.caseData;
+
+  return withLogContext({ caseNo: record.caseNo, ticketId: ticket.id }, async () => {
+    if (ticket.customFields.cc_case_number !== record.caseNo) {
+      log.info('Stamping case number on ticket');
+      await updateTicketCustomFields(ticket.id, { cc_case_number: record.caseNo }, ticket.ticketTypeId);
+    }
+
+    // The ticket has never seen this case, so treat it as first seen (opened or closed)
+    const transition = determineCaseTransition(record, null);
+    const { result } = await applyCaseToTicket(record, ticket, '[REVIEW]', 'REVIEWED', transition, true);
+
+    await updateCaseThreefoldId(record.caseNo, ticket.id);
+    await resolveReviewQueueItem(item.id, ticket.id, resolvedBy);
+
+    log.info(`Review item #${item.id} resolved by ${resolvedBy}`);
+    return result;
+  });
+}
@@ -0,0 +1,354 @@
+import { config } from '../config.js';
+import { threefoldRequests, threefoldRequestDuration, threefoldEndpointLabel } from '../metrics.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('THREEFOLD');
+
+// ============ Errors ============
+
+/**
+ * Error returned by the Threefold API (non-2xx response).
+ */
+export class ThreefoldApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly responseBody: string
+  ) {
+    super(message);
+    this.name = 'ThreefoldApiError';
+  }
+}
+
+/**
+ * 404 - the ticket/permit/endpoint does not exist.
+ */
+export class ThreefoldNotFoundError extends ThreefoldApiError {
+  constructor(message: string, status: number, responseBody: string) {
+    super(message, status, responseBody);
+    this.name = 'ThreefoldNotFoundError';
+  }
+}
+
+/**
+ * 429 - still rate limited after retrying (or Retry-After is longer than we are willing to wait).
+ */
+export class ThreefoldRateLimitedError extends ThreefoldApiError {
+  constructor(
+    message: string,
+    status: number,
+    responseBody: string,
+    public readonly retryAfterMs: number | null
+  ) {
+    super(message, status, responseBody);
+    this.name = 'ThreefoldRateLimitedError';
+  }
+}
+
+/**
+ * 400/422 - the request payload was rejected. Retrying the same request will not help.
+ */
+export class ThreefoldValidationError extends ThreefoldApiError {
+  constructor(message: string, status: number, responseBody: string) {
+    super(message, status, responseBody);
+    this.name = 'ThreefoldValidationError';
+  }
+}
+
+/**
+ * 401/403 - the API token is missing, invalid or lacks permission.
+ */
+export class ThreefoldAuthError extends ThreefoldApiError {
+  constructor(message: string, status: number, responseBody: string) {
+    super(message, status, responseBody);
+    this.name = 'ThreefoldAuthError';
+  }
+}
+
+/**
+ * The request never got a response (network error or timeout).
+ */
+export class ThreefoldNetworkError extends Error {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = 'ThreefoldNetworkError';
+  }
+}
+
+/**
+ * The circuit breaker is open - the request was not sent.
+ */
+export class ThreefoldCircuitOpenError extends Error {
+  constructor(public readonly retryAt: Date) {
+    super(`Threefold API circuit open until ${retryAt.toISOString()}`);
+    this.name = 'ThreefoldCircuitOpenError';
+  }
+}
+
+/**
+ * Build the typed error for a non-2xx response.
+ */
+function toApiError(
+  description: string,
+  status: number,
+  body: string,
+  retryAfterMs: number | null
+): ThreefoldApiError {
+  const message = `Failed to ${description}: ${status} ${body}`;
+  if (status === 404) return new ThreefoldNotFoundError(message, status, body);
+  if (status === 429) return new ThreefoldRateLimitedError(message, status, body, retryAfterMs);
+  if (status === 400 || status === 422) return new ThreefoldValidationError(message, status, body);
+  if (status === 401 || status === 403) return new ThreefoldAuthError(message, status, body);
+  return new ThreefoldApiError(message, status, body);
+}
+
+/**
+ * Whether an error is worth retrying (now or later via the outbox).
+ * Rejected payloads and missing resources will fail the same way every time.
+ */
+export function isRetryableThreefoldError(err: unknown): boolean {
+  return !(err instanceof ThreefoldValidationError || err instanceof ThreefoldNotFoundError);
+}
+
+// ============ Rate Limiting ============
+
+// Rate limiting: minimum ms between API calls
+const MIN_REQUEST_INTERVAL_MS = 200;
+let lastRequestTime = 0;
+
+/**
+ * Ensure minimum interval between Threefold API calls.
+ * Prevents overwhelming the API with rapid requests.
+ */
+async function rateLimitedRequest(): Promise<void> {
+  const now = Date.now();
+  const elapsed = now - lastRequestTime;
+
+  if (elapsed < MIN_REQUEST_INTERVAL_MS) {
+    const waitTime = MIN_REQUEST_INTERVAL_MS - elapsed;
+    await sleep(waitTime);
+  }
+
+  lastRequestTime = Date.now();
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// ============ Circuit Breaker ============
+
+type CircuitState = 'closed' | 'open' | 'half_open';
+
+const circuit = {
+  state: 'closed' as CircuitState,
+  consecutiveFailures: 0,
+  openedAt: 0,
+  trialInFlight: false,
+};
+
+/**
+ * Current circuit breaker state (for logging and health checks).
+ */
+export function getCircuitState(): { state: CircuitState; consecutiveFailures: number; retryAt: string | null } {
+  return {
+    state: circuit.state,
+    consecutiveFailures: circuit.consecutiveFailures,
+    retryAt: circuit.state === 'open'
+      ? new Date(circuit.openedAt + config.threefoldCircuitResetSeconds * 1000).toISOString()
+      : null,
+  };
+}
+
+/**
+ * Check the circuit before sending a request.
+ * An open circuit moves to half-open once the reset period has passed, letting a single trial request through.
+ *
+ * @returns true if this request is the half-open trial
+ */
+function acquireCircuit(): boolean {
+  if (circuit.state === 'closed') {
+    return false;
+  }
+
+  const retryAt = circuit.openedAt + config.threefoldCircuitResetSeconds * 1000;
+  if (circuit.state === 'open' && Date.now() >= retryAt) {
+    circuit.state = 'half_open';
+    log.info('Circuit half-open, sending trial request');
+  }
+
+  if (circuit.state === 'half_open' && !circuit.trialInFlight) {
+    circuit.trialInFlight = true;
+    return true;
+  }
+
+  throw new ThreefoldCircuitOpenError(new Date(Math.max(retryAt, Date.now())));
+}
+
+/**
+ * Record a request that reached Threefold and got a non-transient answer.
+ */
+function recordSuccess(isTrial: boolean): void {
+  if (isTrial) {
+    circuit.trialInFlight = false;
+  }
+  if (circuit.state !== 'closed') {
+    log.info('Circuit closed, API is responding again');
+  }
+  circuit.state = 'closed';
+  circuit.consecutiveFailures = 0;
+}
+
+/**
+ * Record a transient failure (network error, timeout, 5xx), opening the circuit
+ * once CIRCUIT_FAILURE_THRESHOLD failures happen in a row or the half-open trial fails.
+ */
+function recordFailure(isTrial: boolean): void {
+  if (isTrial) {
+    circuit.trialInFlight = false;
+  }
+  circuit.consecutiveFailures++;
+
+  if (circuit.state === 'half_open' || circuit.consecutiveFailures >= config.threefoldCircuitFailureThreshold) {
+    if (circuit.state !== 'open') {
+      log.warn(`Circuit open after ${circuit.consecutiveFailures} consecutive failures, pausing requests for ${config.threefoldCircuitResetSeconds}s`);
+    }
+    circuit.state = 'open';
+    circuit.openedAt = Date.now();
+  }
+}
+
+// ============ Request ============
+
+export interface ThreefoldRequestOptions {
+  method: 'GET' | 'POST';
+  // Path relative to THREEFOLD_API_URL, e.g. /api/external/tickets/search
+  path: string;
+  // What the request does, used in error messages (e.g., "search tickets")
+  description: string;
+  json?: unknown;
+  formData?: FormData;
+  // Whether the request is safe to repeat after a 5xx/timeout (defaults to true).
+  // Non-idempotent requests (creates, comments) are only retried when Threefold did not process them (429).
+  idempotent?: boolean;
+  // Retries after a transient failure (defaults to THREEFOLD_MAX_RETRIES; 0 = fail fast, e.g. health checks)
+  maxRetries?: number;
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds.
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Exponential backoff with full jitter for the given retry (1-based).
+ */
+function backoffDelay(retry: number): number {
+  const ceiling = Math.min(config.threefoldRetryBaseDelayMs * 2 ** (retry - 1), config.threefoldRetryMaxDelayMs);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Send a request to the Threefold API.
+ *
+ * - Bearer token auth and a per-attempt timeout (THREEFOLD_TIMEOUT_MS)
+ * - Retries 429, 5xx, network errors and timeouts up to THREEFOLD_MAX_RETRIES times with
+ *   jittered exponential backoff, honouring Retry-After on 429/503
+ * - Shares a circuit breaker across all callers, so an outage fails fast instead of
+ *   every case waiting out its own retries
+ * - Throws typed errors (ThreefoldNotFoundError, ThreefoldRateLimitedError, ...) on failure
+ *
+ * @returns Parsed JSON body, or null for empty responses
+ */
+export async function threefoldRequest<T>(options: ThreefoldRequestOptions): Promise<T> {
+  const idempotent = options.idempotent ?? true;
+  const maxRetries = options.maxRetries ?? config.threefoldMaxRetries;
+  const headers: Record<string, string> = {
+    Authorization: `Bearer ${config.threefoldApiToken}`,
+  };
+  let body: string | FormData | undefined;
+  if (options.json !== undefined) {
+    headers['Content-Type'] = 'application/json';
+    body = JSON.stringify(options.json);
+  } else if (options.formData) {
+    body = options.formData;
+  }
+
+  const metricLabels = { endpoint: threefoldEndpointLabel(options.path), method: options.method };
+
+  for (let attempt = 1; ; attempt++) {
+    const isTrial = acquireCircuit();
+    await rateLimitedRequest();
+
+    let response: Response;
+    const endTimer = threefoldRequestDuration.startTimer(metricLabels);
+    try {
+      response = await fetch(`${config.threefoldApiUrl}${options.path}`, {
+        method: options.method,
+        headers,
+        body,
+        signal: AbortSignal.timeout(config.threefoldTimeoutMs),
+      });
+    } catch (err) {
+      endTimer();
+      recordFailure(isTrial);
+      const timedOut = err instanceof Error && err.name === 'TimeoutError';
+      threefoldRequests.inc({ ...metricLabels, status: timedOut ? 'timeout' : 'network_error' });
+      const reason = timedOut
+        ? `timed out after ${config.threefoldTimeoutMs}ms`
+        : err instanceof Error ? err.message : String(err);
+      const error = new ThreefoldNetworkError(`Failed to ${options.description}: ${reason}`, err);
+
+      // A timed-out create may still have been processed - only retry it if it never connected
+      if ((idempotent || !timedOut) && attempt <= maxRetries) {
+        const delay = backoffDelay(attempt);
+        log.warn(`${error.message} - retry ${attempt}/${maxRetries} in ${delay}ms`);
+        await sleep(delay);
+        continue;
+      }
+      throw error;
+    }
+
+    endTimer();
+    threefoldRequests.inc({ ...metricLabels, status: String(response.status) });
+
+    if (response.ok) {
+      recordSuccess(isTrial);
+      const text = await response.text();
+      return (text ? JSON.parse(text) : null) as T;
+    }
+
+    const responseBody = await response.text();
+    const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+    const isServerError = response.status >= 500;
+
+    // 5xx counts against the circuit; 4xx means Threefold is up and answering
+    if (isServerError) {
+      recordFailure(isTrial);
+    } else {
+      recordSuccess(isTrial);
+    }
+
+    const error = toApiError(options.description, response.status, responseBody, retryAfterMs);
+    const retryable = response.status === 429 || (isServerError && (idempotent || response.status === 503));
+
+    if (retryable && attempt <= maxRetries) {
+      const delay = retryAfterMs ?? backoffDelay(attempt);
+      if (delay <= config.threefoldRetryMaxDelayMs) {
+        log.warn(`${options.description} returned ${response.status} - retry ${attempt}/${maxRetries} in ${delay}ms`);
+        await sleep(delay);
+        continue;
+      }
+    }
+
+    throw error;
+  }
+}
@@ -1,24 +1,9 @@
 import { config } from '../config.js';
+import { threefoldRequest, ThreefoldApiError, ThreefoldNotFoundError } from './threefold-client.js';
+import { assertValidCustomFields } from './custom-field-definitions.js';
+import { createLogger } from '../logger.js';
 
-// Rate limiting: minimum ms between API calls
-const MIN_REQUEST_INTERVAL_MS = 200;
-let lastRequestTime = 0;
-
-/**
- * Ensure minimum interval between Threefold API calls.
- * Prevents overwhelming the API with rapid requests.
- */
-async function rateLimitedRequest(): Promise<void> {
-  const now = Date.now();
-  const elapsed = now - lastRequestTime;
-
-  if (elapsed < MIN_REQUEST_INTERVAL_MS) {
-    const waitTime = MIN_REQUEST_INTERVAL_MS - elapsed;
-    await new Promise(resolve => setTimeout(resolve, waitTime));
-  }
-
-  lastRequestTime = Date.now();
-}
+const log = createLogger('THREEFOLD');
 
 // ============ Ticket Search & Custom Fields API ============
 
@@ -71,6 +56,16 @@ export interface TicketWithCustomFields {
   updatedAt: string;
 }
 
+/**
+ * Filters supported by the external tickets search API.
+ */
+export interface TicketSearchFilters {
+  customFields?: Record<string, unknown>;
+  address?: string; // Contains match on ticket address
+  createdAfter?: string; // ISO datetime
+  createdBefore?: string; // ISO datetime
+}
+
 /**
  * Search tickets by custom field values.
  * Uses the external tickets search API.
@@ -83,33 +78,37 @@ export async function searchTicketsByCustomField(
     includeClosed?: boolean;
   }
 ): Promise<{ tickets: TicketWithCustomFields[]; total: number; hasMore: boolean }> {
-  await rateLimitedRequest();
+  return searchTickets({ customFields }, options);
+}
 
+/**
+ * Search tickets by standard ticket filters and/or custom field values.
+ * Uses the external tickets search API.
+ */
+export async function searchTickets(
+  filters: TicketSearchFilters,
+  options?: {
+    limit?: number;
+    offset?: number;
+    includeClosed?: boolean;
+  }
+): Promise<{ tickets: TicketWithCustomFields[]; total: number; hasMore: boolean }> {
   const body: Record<string, unknown> = {
-    custom_fields: customFields,
     limit: options?.limit ?? 50,
     offset: options?.offset ?? 0,
     include_closed: options?.includeClosed ?? true,
   };
+  if (filters.customFields) body.custom_fields = filters.customFields;
+  if (filters.address) body.address = filters.address;
+  if (filters.createdAfter) body.created_after = filters.createdAfter;
+  if (filters.createdBefore) body.created_before = filters.createdBefore;
 
-  const response = await fetch(
-    `${config.threefoldApiUrl}/api/external/tickets/search`,
-    {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${config.threefoldApiToken}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
-    }
-  );
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to search tickets: ${response.status} ${error}`);
-  }
-
-  const data = await response.json() as TicketSearchResponse;
+  const data = await threefoldRequest<TicketSearchResponse>({
+    method: 'POST',
+    path: '/api/external/tickets/search',
+    description: 'search tickets',
+    json: body,
+  });
 
   const tickets = (data.data?.tickets || []).map(t => ({
     id: t.id,
@@ -134,36 +133,18 @@ export async function searchTicketsByCustomField(
   };
 }
 
-// Flag to track if search API is available (avoids repeated failed calls)
-let searchApiAvailable = true;
+// How long to skip the search API after it responds 405 (not enabled for the org)
+const SEARCH_UNAVAILABLE_RECHECK_MS = 15 * 60 * 1000;
+
+// When the search API last responded 405 (avoids repeated failed calls)
+let searchUnavailableSince: number | null = null;
 
 /**
  * Get a ticket by its ID.
  * Used when we have a cached ticket ID and don't need to search.
  */
 export async function getTicketById(ticketId: number): Promise<TicketWithCustomFields | null> {
-  await rateLimitedRequest();
-
-  const response = await fetch(
-    `${config.threefoldApiUrl}/api/external/tickets/${ticketId}`,
-    {
-      method: 'GET',
-      headers: {
-        Authorization: `Bearer ${config.threefoldApiToken}`,
-      },
-    }
-  );
-
-  if (response.status === 404) {
-    return null;
-  }
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to get ticket: ${response.status} ${error}`);
-  }
-
-  const data = await response.json() as {
+  let data: {
     success: boolean;
     data: {
       id: number;
@@ -182,6 +163,19 @@ export async function getTicketById(ticketId: number): Promise<TicketWithCustomF
     };
   };
 
+  try {
+    data = await threefoldRequest({
+      method: 'GET',
+      path: `/api/external/tickets/${ticketId}`,
+      description: 'get ticket',
+    });
+  } catch (error) {
+    if (error instanceof ThreefoldNotFoundError) {
+      return null;
+    }
+    throw error;
+  }
+
   const t = data.data;
   return {
     id: t.id,
@@ -205,9 +199,12 @@ export async function getTicketById(ticketId: number): Promise<TicketWithCustomF
  * Returns null if no ticket found or if search API is not available.
  */
 export async function findTicketByCaseNumber(caseNo: string): Promise<TicketWithCustomFields | null> {
-  // Skip API call if we already know search isn't available
-  if (!searchApiAvailable) {
-    return null;
+  // Skip API call if search recently responded as unavailable
+  if (searchUnavailableSince !== null) {
+    if (Date.now() - searchUnavailableSince < SEARCH_UNAVAILABLE_RECHECK_MS) {
+      return null;
+    }
+    searchUnavailableSince = null;
   }
 
   try {
@@ -218,11 +215,10 @@ export async function findTicketByCaseNumber(caseNo: string): Promise<TicketWith
 
     return result.tickets[0] ?? null;
   } catch (error) {
-    // If the search API is not available (405), disable future calls and return null
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    if (errorMessage.includes('405')) {
-      console.log(`[THREEFOLD] Search API not available (405), disabling ticket search for this session`);
-      searchApiAvailable = false;
+    // If the search API is not available (405), skip it for a while and return null
+    if (error instanceof ThreefoldApiError && error.status === 405) {
+      log.warn(`Search API not available (405), skipping ticket search for ${SEARCH_UNAVAILABLE_RECHECK_MS / 60000} minutes`);
+      searchUnavailableSince = Date.now();
       return null;
     }
     // Re-throw other errors
@@ -232,70 +228,231 @@ export async function findTicketByCaseNumber(caseNo: string): Promise<TicketWith
 
 /**
  * Custom fields for Code Compliance Case updates.
+ * Case fields beyond these can be added through the case field mapping (src/mapping/case-fields.json).
  */
 export interface CodeComplianceCustomFields {
+  [fieldKey: string]: string | number | boolean | null | undefined;
   cc_case_number?: string;
-  last_case_status?: 'open' | 'closed';
+  last_case_status?: string; // 'open' | 'closed'
   cc_case_opened?: string; // YYYY-MM-DD format
   case_close_date?: string | null; // YYYY-MM-DD format or null
+  cc_violation_count?: number; // Total violations on the case
+  cc_open_violation_count?: number; // Violations not yet COMPLIED/UNFOUNDED
+  cc_violation_summary?: string | null; // "TYPE: STATUS; ..." per violation
+  last_inspection_date?: string; // YYYY-MM-DD of the most recent completed inspection
+  last_inspection_result?: string; // Result of the most recent completed inspection
 }
 
 /**
  * Update a ticket's custom fields.
  * Uses POST /api/external/tickets/{id}/custom-fields endpoint.
+ *
+ * The payload is validated against the cached custom field definitions first and
+ * rejected with CustomFieldValidationError instead of being sent.
+ *
+ * @param ticketTypeId - Ticket's type, to also check field visibility (optional)
  */
 export async function updateTicketCustomFields(
   ticketId: number,
-  customFields: CodeComplianceCustomFields
+  customFields: CodeComplianceCustomFields,
+  ticketTypeId?: number | null
 ): Promise<void> {
-  await rateLimitedRequest();
+  await assertValidCustomFields(ticketId, customFields, ticketTypeId);
 
   const body = {
     custom_fields: customFields,
   };
 
-  const response = await fetch(
-    `${config.threefoldApiUrl}/api/external/tickets/${ticketId}/custom-fields`,
-    {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${config.threefoldApiToken}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
-    }
-  );
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to update ticket custom fields: ${response.status} ${error}`);
-  }
+  await threefoldRequest({
+    method: 'POST',
+    path: `/api/external/tickets/${ticketId}/custom-fields`,
+    description: 'update ticket custom fields',
+    json: body,
+  });
 
-  console.log(`[THREEFOLD] Updated custom fields for ticket #${ticketId}`);
+  log.info('Updated custom fields', { ticketId });
 }
 
 /**
  * Add a comment to a Threefold ticket.
  */
 export async function addTicketComment(ticketId: number, content: string): Promise<void> {
-  await rateLimitedRequest();
-
   const formData = new FormData();
   formData.append('ticket_id', ticketId.toString());
   formData.append('content', content);
 
-  const response = await fetch(`${config.threefoldApiUrl}/api/comments/external`, {
+  // Not idempotent - a retried comment after a timeout could be posted twice
+  await threefoldRequest({
     method: 'POST',
-    headers: {
-      Authorization: `Bearer ${config.threefoldApiToken}`,
-    },
-    body: formData,
+    path: '/api/comments/external',
+    description: 'add comment',
+    formData,
+    idempotent: false,
   });
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to add comment: ${response.status} ${error}`);
-  }
+  log.info('Added comment', { ticketId });
+}
+
+/**
+ * Move a Threefold ticket to a workflow step.
+ * Uses POST /api/change-step/external endpoint.
+ */
+export async function changeTicketStep(ticketId: number, stepId: number): Promise<void> {
+  const formData = new FormData();
+  formData.append('ticket_id', ticketId.toString());
+  formData.append('step_id', stepId.toString());
+
+  await threefoldRequest({
+    method: 'POST',
+    path: '/api/change-step/external',
+    description: 'change ticket step',
+    formData,
+  });
+
+  log.info(`Moved ticket to step ${stepId}`, { ticketId });
+}
+
+// ============ Permits API ============
+
+/**
+ * Permit payload sent to Threefold.
+ */
+export interface ThreefoldPermitPayload {
+  permit_number: string;
+  status: string;
+  permit_type: string;
+  permit_subtype: string;
+  applied_date: string | null;
+  approved_date: string | null;
+  issued_date: string | null;
+  finaled_date: string | null;
+  expired_date: string | null;
+  address: string;
+  description: string;
+  job_value: number | null;
+  apn: string;
+}
+
+/**
+ * Threefold IDs assigned to a permit.
+ */
+export interface ThreefoldPermitIds {
+  permitId: number;
+  typeId: number | null;
+  subtypeId: number | null;
+  statusId: number | null;
+}
+
+/**
+ * Create or update a permit in Threefold, keyed by permit_number.
+ * Uses POST /api/external/permits/upsert endpoint.
+ */
+export async function upsertThreefoldPermit(permit: ThreefoldPermitPayload): Promise<ThreefoldPermitIds> {
+  const data = await threefoldRequest<{
+    success: boolean;
+    data: {
+      id: number;
+      permit_type_id?: number | null;
+      permit_subtype_id?: number | null;
+      status_id?: number | null;
+    };
+  }>({
+    method: 'POST',
+    path: '/api/external/permits/upsert',
+    description: 'upsert permit',
+    json: permit,
+  });
+
+  log.info(`Upserted permit ${permit.permit_number}`, { permitId: data.data.id });
+
+  return {
+    permitId: data.data.id,
+    typeId: data.data.permit_type_id ?? null,
+    subtypeId: data.data.permit_subtype_id ?? null,
+    statusId: data.data.status_id ?? null,
+  };
+}
+
+// ============ Ticket Creation API ============
+
+/**
+ * Input for creating a ticket.
+ */
+export interface CreateTicketInput {
+  address: string;
+  title: string;
+  description: string;
+  ticketTypeId: number;
+  customFields: CodeComplianceCustomFields;
+}
+
+/**
+ * Create a ticket with custom fields.
+ * Uses POST /api/tickets endpoint.
+ */
+export async function createTicket(input: CreateTicketInput): Promise<TicketWithCustomFields> {
+  await assertValidCustomFields(null, input.customFields, input.ticketTypeId);
+
+  const body = {
+    organization_id: config.threefoldOrgId,
+    ticket_address: input.address,
+    ticket_title: input.title,
+    ticket_description: input.description,
+    ticket_type_id: input.ticketTypeId,
+    custom_fields: input.customFields,
+  };
+
+  const t = await threefoldRequest<{
+    id: number;
+    short_id: string;
+    ticket_address: string;
+    ticket_title: string;
+    ticket_description?: string;
+    ticket_type_id: number;
+    custom_fields: Record<string, unknown>;
+    created_at: string;
+    updated_at?: string;
+  }>({
+    method: 'POST',
+    path: '/api/tickets',
+    description: 'create ticket',
+    json: body,
+    // Not idempotent - retrying after a timeout could create a duplicate ticket
+    idempotent: false,
+  });
+
+  log.info(`Created ticket ${t.short_id}`, { ticketId: t.id });
 
-  console.log(`[THREEFOLD] Added comment to ticket #${ticketId}`);
+  return {
+    id: t.id,
+    shortId: t.short_id,
+    title: t.ticket_title,
+    description: t.ticket_description ?? input.description,
+    address: t.ticket_address,
+    priority: '',
+    statusId: 0,
+    statusName: '',
+    ticketTypeId: t.ticket_type_id,
+    ticketTypeName: '',
+    customFields: t.custom_fields || {},
+    createdAt: t.created_at,
+    updatedAt: t.updated_at ?? t.created_at,
+  };
+}
+
+// ============ Health ============
+
+/**
+ * Make a cheap authenticated request (active custom field definitions) to confirm the
+ * API is reachable and THREEFOLD_API_TOKEN is accepted. No retries - callers want a quick answer.
+ *
+ * @throws ThreefoldAuthError if the token is rejected, or any other client error
+ */
+export async function checkThreefoldAuth(): Promise<void> {
+  await threefoldRequest({
+    method: 'GET',
+    path: '/api/custom-fields/definitions?active_only=true',
+    description: 'check API access',
+    maxRetries: 0,
+  });
 }
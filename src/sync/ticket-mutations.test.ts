@@ -0,0 +1,35 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '../config.js';
+import { nextOutboxAttempt } from './ticket-mutations.js';
+
+/**
+ * Delay in seconds until the next attempt, measured against the time around the call.
+ */
+function delaySeconds(attempts: number): number | null {
+  const before = Date.now();
+  const next = nextOutboxAttempt(attempts);
+  if (!next) return null;
+  return Math.round((next.getTime() - before) / 1000);
+}
+
+describe('nextOutboxAttempt', () => {
+  it('backs off exponentially from OUTBOX_BASE_DELAY_SECONDS', () => {
+    const base = config.outboxBaseDelaySeconds;
+    assert.equal(delaySeconds(1), base);
+    assert.equal(delaySeconds(2), base * 2);
+    assert.equal(delaySeconds(3), base * 4);
+  });
+
+  it('caps the delay at 6 hours', () => {
+    // Reachable with the raised attempt limit set in src/testing/env.ts
+    assert.ok(config.outboxBaseDelaySeconds * 2 ** (config.outboxMaxAttempts - 2) > 6 * 60 * 60);
+    assert.equal(delaySeconds(config.outboxMaxAttempts - 1), 6 * 60 * 60);
+  });
+
+  it('dead-letters after OUTBOX_MAX_ATTEMPTS attempts', () => {
+    assert.notEqual(nextOutboxAttempt(config.outboxMaxAttempts - 1), null);
+    assert.equal(nextOutboxAttempt(config.outboxMaxAttempts), null);
+    assert.equal(nextOutboxAttempt(config.outboxMaxAttempts + 1), null);
+  });
+});
@@ -0,0 +1,137 @@
+import { config } from '../config.js';
+import {
+  enqueueOutboxItem,
+  queueOutboxItem,
+  hasPendingOutboxItems,
+  supersedeDeadFieldWrites,
+  supersedeDeadPermitUpserts,
+} from '../state/outbox.js';
+import { updatePermitThreefoldIds } from '../state/tracker.js';
+import {
+  updateTicketCustomFields,
+  addTicketComment,
+  changeTicketStep,
+  upsertThreefoldPermit,
+  CodeComplianceCustomFields,
+  ThreefoldPermitPayload,
+} from './threefold.js';
+import { CustomFieldValidationError, assertValidCustomFields } from './custom-field-definitions.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('OUTBOX');
+
+/**
+ * A write to a Threefold ticket (or a permit upsert, which has no ticket) that can be stored in
+ * the outbox and retried.
+ * ticketTypeId is only used to validate field visibility on the first attempt (it is not stored in the outbox).
+ */
+export type TicketMutation =
+  | {
+      action: 'custom_fields';
+      ticketId: number;
+      caseNo: string | null;
+      payload: CodeComplianceCustomFields;
+      ticketTypeId?: number | null;
+    }
+  | { action: 'comment'; ticketId: number; caseNo: string | null; payload: { content: string } }
+  | { action: 'change_step'; ticketId: number; caseNo: string | null; payload: { stepId: number } }
+  | { action: 'permit_upsert'; ticketId: null; caseNo: null; payload: ThreefoldPermitPayload };
+
+/**
+ * Send a mutation to Threefold.
+ */
+export async function executeTicketMutation(mutation: TicketMutation): Promise<void> {
+  switch (mutation.action) {
+    case 'custom_fields':
+      await updateTicketCustomFields(mutation.ticketId, mutation.payload, mutation.ticketTypeId);
+      break;
+    case 'comment':
+      await addTicketComment(mutation.ticketId, mutation.payload.content);
+      break;
+    case 'change_step':
+      await changeTicketStep(mutation.ticketId, mutation.payload.stepId);
+      break;
+    case 'permit_upsert': {
+      const ids = await upsertThreefoldPermit(mutation.payload);
+      await updatePermitThreefoldIds(mutation.payload.permit_number, mutation.payload.status, ids);
+      break;
+    }
+  }
+}
+
+/**
+ * When to try a mutation again after `attempts` failed attempts, or null once it should be dead-lettered.
+ * Exponential backoff: base, 2x base, 4x base, ... capped at 6 hours.
+ */
+export function nextOutboxAttempt(attempts: number): Date | null {
+  if (attempts >= config.outboxMaxAttempts) {
+    return null;
+  }
+  const delaySeconds = Math.min(config.outboxBaseDelaySeconds * 2 ** (attempts - 1), 6 * 60 * 60);
+  return new Date(Date.now() + delaySeconds * 1000);
+}
+
+/**
+ * After a custom field write or permit upsert is delivered, stop older dead items from overwriting
+ * it when re-driven (see supersedeDeadFieldWrites / supersedeDeadPermitUpserts).
+ * outboxId is the delivered outbox item, if it came from the outbox.
+ */
+export async function supersedeOlderWrites(mutation: TicketMutation, outboxId?: number): Promise<void> {
+  if (mutation.action === 'custom_fields') {
+    const superseded = await supersedeDeadFieldWrites(mutation.ticketId, Object.keys(mutation.payload), outboxId);
+    if (superseded > 0) {
+      log.info(`Dropped newer fields from ${superseded} dead custom_fields item(s)`, { ticketId: mutation.ticketId });
+    }
+  } else if (mutation.action === 'permit_upsert') {
+    const superseded = await supersedeDeadPermitUpserts(mutation.payload.permit_number, outboxId);
+    if (superseded > 0) {
+      log.info(`Superseded ${superseded} dead permit_upsert item(s)`, { permitNo: mutation.payload.permit_number });
+    }
+  }
+}
+
+/**
+ * Send a mutation to Threefold, storing it in the outbox for retry if it fails.
+ * Once a mutation is queued the caller can treat the change as handled - it will not be lost.
+ *
+ * If the ticket already has pending outbox items, the mutation is queued behind them instead of
+ * being sent - otherwise a stale queued write would later overwrite it.
+ *
+ * Mutations that fail custom field validation are stored dead-lettered straight away -
+ * they need a fix in Threefold or the mapping, not a retry.
+ */
+export async function sendOrQueueTicketMutation(mutation: TicketMutation): Promise<'sent' | 'queued'> {
+  try {
+    if (await hasPendingOutboxItems(mutation)) {
+      // Validate now, while the ticket type is known (it is not stored in the outbox)
+      if (mutation.action === 'custom_fields') {
+        await assertValidCustomFields(mutation.ticketId, mutation.payload, mutation.ticketTypeId);
+      }
+      const outboxId = await queueOutboxItem(mutation);
+      log.info(`Ticket has pending retries, queued ${mutation.action} behind them`, { ticketId: mutation.ticketId, outboxId });
+      return 'queued';
+    }
+
+    await executeTicketMutation(mutation);
+    await supersedeOlderWrites(mutation);
+    return 'sent';
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : String(err);
+
+    if (err instanceof CustomFieldValidationError) {
+      const outboxId = await enqueueOutboxItem(mutation, errorMessage, null);
+      log.error(`${errorMessage} - not sent, dead-lettered`, { ticketId: mutation.ticketId, outboxId });
+      return 'queued';
+    }
+
+    // With OUTBOX_MAX_ATTEMPTS=1 the first attempt was the only one - store it dead-lettered
+    const nextAttemptAt = nextOutboxAttempt(1);
+    const outboxId = await enqueueOutboxItem(mutation, errorMessage, nextAttemptAt);
+    if (nextAttemptAt) {
+      log.warn(`${mutation.action} failed, queued for retry: ${errorMessage}`, { ticketId: mutation.ticketId, outboxId });
+    } else {
+      log.error(`${mutation.action} failed, dead-lettered: ${errorMessage}`, { ticketId: mutation.ticketId, outboxId });
+    }
+    return 'queued';
+  }
+}
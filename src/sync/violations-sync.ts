@@ -0,0 +1,212 @@
+import { config } from '../config.js';
+import { ViolationRecord, isResolvedViolationStatus } from '../parsers/violations.js';
+import {
+  diffViolations,
+  findRemovedViolations,
+  deleteViolationState,
+  upsertViolationState,
+  updateViolationsMatchedTicket,
+  updateCaseThreefoldId,
+  createSyncLog,
+  completeSyncLog,
+} from '../state/tracker.js';
+import { CodeComplianceCustomFields } from './threefold.js';
+import { sendOrQueueTicketMutation } from './ticket-mutations.js';
+import { findTicketForCase } from './case-ticket.js';
+import { createLogger, withLogContext } from '../logger.js';
+
+const log = createLogger('VIOLATION SYNC');
+
+/**
+ * Build the violation custom fields for a case from all of its violations in the export.
+ */
+export function buildViolationFields(violations: ViolationRecord[]): Required<Pick<
+  CodeComplianceCustomFields,
+  'cc_violation_count' | 'cc_open_violation_count' | 'cc_violation_summary'
+>> {
+  const sorted = [...violations].sort((a, b) =>
+    (a.dateObserved ?? '').localeCompare(b.dateObserved ?? '') || a.violationType.localeCompare(b.violationType)
+  );
+
+  return {
+    cc_violation_count: sorted.length,
+    cc_open_violation_count: sorted.filter(v => !isResolvedViolationStatus(v.violationStatus)).length,
+    cc_violation_summary: sorted.length > 0
+      ? sorted.map(v => `${v.violationType}: ${v.violationStatus}`).join('; ')
+      : null,
+  };
+}
+
+/**
+ * Process TrakIT violations sync.
+ *
+ * Logic:
+ * 1. Compare incoming CSV against local violation_state table to find changes, and find
+ *    stored violations missing from the export (deleted in TrakIT)
+ * 2. Group changed and removed violations by parent case number
+ * 3. For each affected case, find its ticket (cached ID or cc_case_number search)
+ * 4. Rebuild violation counts/summary from ALL of the case's violations in the export
+ *    and only make an API call if the ticket's values differ
+ * 5. Save records to local state for next sync comparison, dropping removed violations - except
+ *    for cases that failed, or were not pushed because VIOLATION_UPDATES_ENABLED is off, so the
+ *    next sync picks them up again
+ *
+ * Custom fields updated:
+ * - cc_violation_count: total violations on the case
+ * - cc_open_violation_count: violations not yet resolved
+ * - cc_violation_summary: "TYPE: STATUS" list of each violation
+ */
+export async function processViolationsSync(records: ViolationRecord[]): Promise<void> {
+  const syncId = await createSyncLog('violations');
+  const startTime = Date.now();
+
+  // Tag every log line from this run (and the Threefold calls it makes) with the sync log ID
+  await withLogContext({ syncLogId: syncId }, async () => {
+    log.info(`Starting sync for ${records.length} records`);
+
+    try {
+      const changes = await diffViolations(records);
+      // An empty export is more likely a broken report than every violation being deleted
+      const removed = records.length > 0 ? await findRemovedViolations(records) : [];
+
+      log.info(`Found ${changes.length} changes out of ${records.length} records, ${removed.length} removed`);
+
+      if (changes.length === 0 && removed.length === 0) {
+        log.info('No changes detected, skipping API updates');
+        await upsertViolationState(records);
+        await completeSyncLog(syncId, records.length, 0, 0);
+        return;
+      }
+
+      // The export contains every violation, so the full set for a case comes from the incoming records
+      const violationsByCase = new Map<string, ViolationRecord[]>();
+      for (const record of records) {
+        const list = violationsByCase.get(record.caseNo) ?? [];
+        list.push(record);
+        violationsByCase.set(record.caseNo, list);
+      }
+
+      // Cases whose violation set shrank need their counts recomputed too
+      const affectedCases = Array.from(new Set([...changes.map(c => c.caseNo), ...removed.map(r => r.caseNo)]));
+      log.info('Changes by type', {
+        newViolations: changes.filter(c => c.isNew).length,
+        updatedViolations: changes.filter(c => !c.isNew).length,
+        removedViolations: removed.length,
+        affectedCases: affectedCases.length,
+      });
+
+      let processed = 0;
+      let updated = 0;
+      let notFound = 0;
+      let noChanges = 0;
+      let queued = 0;
+      let notPushed = 0;
+      let errors = 0;
+
+      // Cases whose violations are left out of violation_state, so the next sync sees them as changed again
+      const unsyncedCaseNos = new Set<string>();
+
+      // Ticket each case was matched to - recorded on violation_state once new rows are inserted
+      const matchedTickets = new Map<string, number>();
+
+      for (const caseNo of affectedCases) {
+        processed++;
+        const progressPct = Math.round((processed / affectedCases.length) * 100);
+
+        await withLogContext({ caseNo }, async () => {
+          try {
+            if (!config.violationUpdatesEnabled) {
+              log.info(`[${progressPct}%] DRY RUN: Would update violations for case`);
+              unsyncedCaseNos.add(caseNo);
+              notPushed++;
+              return;
+            }
+
+            const ticket = await findTicketForCase(caseNo);
+
+            if (!ticket) {
+              log.info(`[${progressPct}%] No ticket found for case`);
+              notFound++;
+              return;
+            }
+
+            const wantFields = buildViolationFields(violationsByCase.get(caseNo) ?? []);
+            const existingFields = ticket.customFields as Partial<CodeComplianceCustomFields>;
+
+            const updateFields: CodeComplianceCustomFields = {};
+            if ((existingFields.cc_violation_count ?? null) !== wantFields.cc_violation_count) {
+              updateFields.cc_violation_count = wantFields.cc_violation_count;
+            }
+            if ((existingFields.cc_open_violation_count ?? null) !== wantFields.cc_open_violation_count) {
+              updateFields.cc_open_violation_count = wantFields.cc_open_violation_count;
+            }
+            if ((existingFields.cc_violation_summary || null) !== wantFields.cc_violation_summary) {
+              updateFields.cc_violation_summary = wantFields.cc_violation_summary;
+            }
+
+            if (Object.keys(updateFields).length === 0) {
+              log.info(`[${progressPct}%] No diff for case - Threefold already up to date`, { ticketId: ticket.id });
+              matchedTickets.set(caseNo, ticket.id);
+              noChanges++;
+              return;
+            }
+
+            log.info(
+              `[${progressPct}%] Updating case: ${wantFields.cc_open_violation_count}/${wantFields.cc_violation_count} open`,
+              { ticketId: ticket.id }
+            );
+
+            const result = await sendOrQueueTicketMutation({
+              action: 'custom_fields',
+              ticketId: ticket.id,
+              ticketTypeId: ticket.ticketTypeId,
+              caseNo,
+              payload: updateFields,
+            });
+            matchedTickets.set(caseNo, ticket.id);
+            await updateCaseThreefoldId(caseNo, ticket.id);
+
+            if (result === 'queued') {
+              queued++;
+            } else {
+              updated++;
+            }
+          } catch (err) {
+            log.error('Error processing case', { err });
+            unsyncedCaseNos.add(caseNo);
+            errors++;
+          }
+        });
+      }
+
+      // Save records to local state for next sync's diff comparison
+      await upsertViolationState(records.filter(r => !unsyncedCaseNos.has(r.caseNo)));
+      await deleteViolationState(removed.filter(r => !unsyncedCaseNos.has(r.caseNo)).map(r => r.externalId));
+
+      for (const [caseNo, ticketId] of matchedTickets) {
+        await updateViolationsMatchedTicket(caseNo, ticketId, 'case_number');
+      }
+
+      const duration = ((Date.now() - startTime) / 1000).toFixed(1);
+
+      // notFound = no ticket for the case, queued = outbox retry,
+      // notPushed = VIOLATION_UPDATES_ENABLED off, errors = retried next sync
+      log.info(`Sync complete in ${duration}s`, {
+        processed,
+        updated,
+        notFound,
+        unchanged: noChanges,
+        queued,
+        notPushed,
+        errors,
+      });
+
+      await completeSyncLog(syncId, records.length, updated + queued, errors);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      log.error('Fatal error', { err });
+      await completeSyncLog(syncId, records.length, 0, 1, errorMessage);
+      throw err;
+    }
+  });
+}
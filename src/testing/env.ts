@@ -0,0 +1,12 @@
+/**
+ * Defaults for the required environment variables, so unit tests can import modules that read config.
+ * Loaded before the tests by `npm test`. Nothing connects to these - tests only cover pure functions.
+ */
+process.env.DATABASE_URL ||= 'postgres://localhost:5432/corona_case_upsert_test';
+process.env.THREEFOLD_API_URL ||= 'http://localhost:0';
+process.env.THREEFOLD_API_TOKEN ||= 'test-token';
+process.env.THREEFOLD_ORG_ID ||= 'test-org';
+process.env.LOG_LEVEL ||= 'error';
+
+// Enough attempts for the outbox backoff to reach its 6 hour cap
+process.env.OUTBOX_MAX_ATTEMPTS ||= '12';
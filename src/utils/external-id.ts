@@ -0,0 +1,40 @@
+/**
+ * External ID helpers for TrakIT records.
+ *
+ * Format: "{kind}|{CASE_NO}|{type}|{date}"
+ * Example: "violation|CC24-1354|STAGNANT WATER|2024-08-27"
+ *
+ * Violations with a TrakIT ActivityID are keyed on it instead, since a case can have
+ * two violations of the same type observed on the same day:
+ * "violation|CC24-1354|activity:VIO24-0087"
+ *
+ * The format is deterministic (same input = same output) and can be
+ * queried with LIKE 'violation|CC24-1354|%' for case-based lookups.
+ */
+
+function buildExternalId(kind: string, caseNo: string, type: string, date: string | null): string {
+  return [kind, caseNo, type.trim().toUpperCase(), date ?? ''].join('|');
+}
+
+/**
+ * Build the external ID for a violation - keyed on its ActivityID when the export has one,
+ * otherwise on type and observed date.
+ */
+export function buildViolationExternalId(
+  caseNo: string,
+  violationType: string,
+  dateObserved: string | null,
+  activityId?: string
+): string {
+  if (activityId) {
+    return ['violation', caseNo, `activity:${activityId}`].join('|');
+  }
+  return buildExternalId('violation', caseNo, violationType, dateObserved);
+}
+
+/**
+ * Build the unique key for an inspection.
+ */
+export function buildInspectionExternalId(caseNo: string, inspectionType: string, scheduledDate: string | null): string {
+  return buildExternalId('inspection', caseNo, inspectionType, scheduledDate);
+}